@@ -0,0 +1,76 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { initSimnet } from '@stacks/clarinet-sdk';
+import {
+  ContractBindingsSource,
+  loadBindingsSourceFromApi,
+  parseErrorConstants,
+  renderBindings,
+} from '../src/bindings-generator';
+import { TRUST_VAULT_CONFIG } from '../src/config';
+
+/**
+ * Generate src/generated/trust-vault.ts from the trust-vault contract interface
+ *
+ * Usage:
+ *   npx tsx scripts/generate-bindings.ts                 # read the interface from Clarinet.toml
+ *   npx tsx scripts/generate-bindings.ts --network testnet  # read it from the deployed contract
+ *   npx tsx scripts/generate-bindings.ts --check         # fail if the generated file is stale
+ */
+
+const OUTPUT_PATH = 'src/generated/trust-vault.ts';
+const CONTRACT_NAME = 'trust-vault';
+
+async function loadFromClarinet(): Promise<ContractBindingsSource> {
+  const simnet = await initSimnet('./Clarinet.toml');
+  const contractId = `${simnet.deployer}.${CONTRACT_NAME}`;
+
+  const abi = simnet.getContractsInterfaces().get(contractId);
+  const source = simnet.getContractSource(contractId);
+  if (!abi || !source) {
+    throw new Error(`Contract ${contractId} not found in Clarinet.toml`);
+  }
+
+  return {
+    contractName: CONTRACT_NAME,
+    abi: abi as unknown as ContractBindingsSource['abi'],
+    errorConstants: parseErrorConstants(source),
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const networkIndex = args.indexOf('--network');
+  const network = networkIndex >= 0 ? args[networkIndex + 1] : undefined;
+
+  let source: ContractBindingsSource;
+  if (network) {
+    const config = TRUST_VAULT_CONFIG[network as keyof typeof TRUST_VAULT_CONFIG];
+    if (!config) throw new Error(`Unknown network: ${network}`);
+    source = await loadBindingsSourceFromApi(config.stacksApi, config.contractAddress);
+  } else {
+    source = await loadFromClarinet();
+  }
+
+  const rendered = renderBindings(source);
+  const current = existsSync(OUTPUT_PATH) ? readFileSync(OUTPUT_PATH, 'utf8') : null;
+
+  if (check) {
+    if (current !== rendered) {
+      console.error(`❌ ${OUTPUT_PATH} is out of date. Run \`npm run generate:bindings\`.`);
+      process.exit(1);
+    }
+    console.log(`✅ ${OUTPUT_PATH} is up to date`);
+    return;
+  }
+
+  mkdirSync(dirname(OUTPUT_PATH), { recursive: true });
+  writeFileSync(OUTPUT_PATH, rendered);
+  console.log(`✅ Wrote ${OUTPUT_PATH}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to generate bindings:', error);
+  process.exit(1);
+});
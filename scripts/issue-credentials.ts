@@ -0,0 +1,79 @@
+import * as dotenv from 'dotenv';
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { BatchCredentialIssuer, parseCredentialRows } from '../src/batch-issuance';
+import { TRUST_VAULT_CONFIG } from '../src/config';
+import type { StacksNetwork } from '../src/types/walletconnect.types';
+
+dotenv.config();
+
+/**
+ * Issue credentials in bulk from a CSV or JSON file
+ *
+ * Usage:
+ *   ISSUER_PRIVATE_KEY=... npx tsx scripts/issue-credentials.ts rows.csv [--network testnet]
+ *     [--progress rows.progress.json] [--confirmations 1]
+ *
+ * CSV files need a header with subject, claimHash or claim (a JSON document),
+ * expiration and metadata columns; JSON files hold an array of the same rows.
+ * Re-running with the same progress file resumes an interrupted batch.
+ */
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const input = args[0];
+  if (!input || input.startsWith('--')) {
+    throw new Error('Usage: issue-credentials.ts <rows.csv|rows.json> [--network testnet]');
+  }
+
+  const privateKey = process.env.ISSUER_PRIVATE_KEY;
+  if (!privateKey) throw new Error('ISSUER_PRIVATE_KEY is not set');
+
+  const network = (option(args, '--network') ||
+    process.env.STACKS_NETWORK ||
+    'testnet') as StacksNetwork;
+  const config = TRUST_VAULT_CONFIG[network as keyof typeof TRUST_VAULT_CONFIG];
+  if (!config) throw new Error(`Unknown network: ${network}`);
+
+  const format = extname(input) === '.json' ? 'json' : 'csv';
+  const rows = parseCredentialRows(readFileSync(input, 'utf8'), format);
+  const progressPath =
+    option(args, '--progress') || input.replace(/\.(csv|json)$/, '') + '.progress.json';
+
+  const issuer = new BatchCredentialIssuer({
+    privateKey,
+    progressPath,
+    network,
+    apiUrl: config.stacksApi,
+    contractAddress: config.contractAddress,
+    confirmations: Number(option(args, '--confirmations') || 1),
+    onRow: (row) => {
+      console.log(`  row ${row.index}: ${row.status}${row.error ? ` (${row.error})` : ''}`);
+    },
+  });
+
+  console.log(`📋 Issuing ${rows.length} credentials from ${issuer.issuer}`);
+  const progress = await issuer.run(rows);
+
+  console.log('\n📊 Results:');
+  for (const row of Object.values(progress.rows)) {
+    if (row.status === 'confirmed') {
+      const credentialId = `(${progress.issuer}, u${row.credentialNonce})`;
+      console.log(`✅ row ${row.index}: ${credentialId} tx ${row.txid}`);
+    } else if (row.status === 'submitted') {
+      console.log(`⏳ row ${row.index}: still pending, tx ${row.txid}`);
+    } else {
+      console.log(`❌ row ${row.index}: ${row.status} - ${row.error}`);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Batch issuance failed:', error);
+  process.exit(1);
+});
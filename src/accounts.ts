@@ -0,0 +1,116 @@
+import { HDKey } from '@scure/bip32';
+import { mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { privateKeyToPublic, publicKeyToAddress, publicKeyToHex } from '@stacks/transactions';
+import { LocalKeySigner, Signer } from './signer';
+import type {
+  StacksAddress,
+  StacksNetwork,
+  WalletConnectMetadata,
+} from './types/walletconnect.types';
+
+/**
+ * Wallet accounts exposed to dApps
+ *
+ * An AccountProvider lists the wallet's accounts; session approval and
+ * stx_getAddresses derive the SP (mainnet) and ST (testnet) addresses
+ * from each account's public key.
+ */
+
+// BIP-44 path of Stacks accounts; account i is at `${STACKS_DERIVATION_PATH}/${i}`
+export const STACKS_DERIVATION_PATH = "m/44'/5757'/0'/0";
+
+export interface WalletAccount {
+  index: number;
+  // Compressed public key, hex encoded
+  publicKey: string;
+}
+
+export interface AccountProvider {
+  getAccounts(): Promise<WalletAccount[]>;
+  // Signer holding the key of one account; providers without keys leave it out
+  getSigner?(index: number): Signer;
+}
+
+// Picks the accounts a dApp may see when it proposes a session
+export type AccountSelector = (
+  dapp: WalletConnectMetadata,
+  accounts: WalletAccount[]
+) => WalletAccount[] | Promise<WalletAccount[]>;
+
+/**
+ * Address of an account on a network; devnet uses testnet addresses
+ */
+export function getAccountAddress(account: WalletAccount, network: StacksNetwork): string {
+  return publicKeyToAddress(account.publicKey, network === 'mainnet' ? 'mainnet' : 'testnet');
+}
+
+/**
+ * `stx_getAddresses` entry for an account
+ */
+export function toStacksAddress(account: WalletAccount, network: StacksNetwork): StacksAddress {
+  return {
+    symbol: 'STX',
+    address: getAccountAddress(account, network),
+    publicKey: account.publicKey,
+  };
+}
+
+/**
+ * Accounts derived from a BIP-39 mnemonic
+ */
+export class MnemonicAccountProvider implements AccountProvider {
+  private root: HDKey;
+  private accountCount: number;
+
+  constructor(mnemonic: string, options: { accountCount?: number; passphrase?: string } = {}) {
+    const normalized = mnemonic.trim().split(/\s+/).join(' ');
+    if (!validateMnemonic(normalized, wordlist)) throw new Error('Invalid mnemonic');
+
+    this.root = HDKey.fromMasterSeed(mnemonicToSeedSync(normalized, options.passphrase));
+    this.accountCount = options.accountCount ?? 1;
+  }
+
+  async getAccounts(): Promise<WalletAccount[]> {
+    return Array.from({ length: this.accountCount }, (_, index) => ({
+      index,
+      publicKey: publicKeyToHex(privateKeyToPublic(this.getPrivateKey(index))),
+    }));
+  }
+
+  /**
+   * Signer holding the key of one account
+   */
+  getSigner(index: number): Signer {
+    return new LocalKeySigner(this.getPrivateKey(index));
+  }
+
+  // Compressed private key, hex encoded with the 01 suffix Stacks expects
+  private getPrivateKey(index: number): string {
+    if (!Number.isInteger(index) || index < 0) throw new RangeError(`Invalid account index: ${index}`);
+
+    const key = this.root.derive(`${STACKS_DERIVATION_PATH}/${index}`).privateKey;
+    if (!key) throw new Error(`Could not derive account ${index}`);
+    return `${Buffer.from(key).toString('hex')}01`;
+  }
+}
+
+/**
+ * The single account of a signer, used when no provider is configured
+ */
+export class SignerAccountProvider implements AccountProvider {
+  private signer: Signer;
+
+  constructor(signer: Signer) {
+    this.signer = signer;
+  }
+
+  async getAccounts(): Promise<WalletAccount[]> {
+    return [{ index: 0, publicKey: await this.signer.getPublicKey() }];
+  }
+
+  getSigner(index: number): Signer {
+    if (index !== 0) throw new RangeError(`No account ${index} for this signer`);
+    return this.signer;
+  }
+}
@@ -0,0 +1,263 @@
+import { cvToString, StacksTransactionWire } from '@stacks/transactions';
+import { WalletRequestError } from './errors';
+import { parseStructuredDataDomain, parseStructuredMessage } from './structured-data';
+import {
+  summarizeContractCall,
+  summarizeTransaction,
+  TransactionSummary,
+} from './transaction-summary';
+import { validateRequestParams } from './request-params';
+import {
+  CallContractParams,
+  SDK_ERRORS,
+  SignMessageParams,
+  SignStructuredMessageParams,
+  SignTransactionParams,
+  StacksMethod,
+  TransferStxParams,
+  WalletConnectMetadata,
+} from './types/walletconnect.types';
+
+/**
+ * User consent for incoming WalletConnect requests
+ *
+ * Every request waits in the queue until the wallet UI approves or rejects
+ * it through the handler registered with `onApprovalRequired`. Unanswered
+ * requests are rejected with USER_REJECTED once they time out.
+ */
+
+export interface RequestSummary {
+  // One-line description for the approval prompt
+  title: string;
+  // Labelled values decoded from the request parameters
+  details: Record<string, string>;
+  // Risks to show prominently, e.g. admin calls or allow-mode transactions
+  warnings: string[];
+  // Decoded transaction for stx_callContract and stx_signTransaction
+  transaction?: TransactionSummary;
+}
+
+export interface PendingRequest {
+  id: number;
+  topic: string;
+  method: string;
+  params: unknown;
+  chainId?: string;
+  dapp?: WalletConnectMetadata;
+  summary: RequestSummary;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type ApprovalHandler = (request: PendingRequest) => void | Promise<void>;
+
+export interface ApprovalQueueOptions {
+  // How long a request waits for an answer, defaults to 5 minutes
+  timeoutMs?: number;
+  // Methods that run without a prompt, defaults to stx_getAddresses
+  autoApprove?: StacksMethod[];
+}
+
+interface QueueEntry {
+  request: PendingRequest;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export class ApprovalQueue {
+  private timeoutMs: number;
+  private autoApprove: Set<string>;
+  private handler?: ApprovalHandler;
+  private entries = new Map<number, QueueEntry>();
+
+  constructor(options: ApprovalQueueOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.autoApprove = new Set(options.autoApprove ?? ['stx_getAddresses']);
+  }
+
+  /**
+   * Register the handler that shows requests to the user
+   */
+  onApprovalRequired(handler: ApprovalHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Wait for the user to approve a request, throwing USER_REJECTED otherwise
+   */
+  async request(
+    request: Omit<PendingRequest, 'summary' | 'createdAt' | 'expiresAt'> & {
+      summary?: RequestSummary;
+    }
+  ): Promise<void> {
+    if (this.autoApprove.has(request.method)) return;
+    if (!this.handler) {
+      throw new WalletRequestError(SDK_ERRORS.USER_REJECTED, 'No approval handler registered');
+    }
+    if (this.entries.has(request.id)) {
+      const message = `Request ${request.id} is already pending`;
+      throw new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message);
+    }
+
+    const createdAt = Date.now();
+    const pending: PendingRequest = {
+      ...request,
+      summary: request.summary || summarizeRequest(request.method, request.params),
+      createdAt,
+      expiresAt: createdAt + this.timeoutMs,
+    };
+
+    const decision = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => this.reject(request.id, 'Request timed out'), this.timeoutMs);
+      timer.unref?.();
+      this.entries.set(request.id, { request: pending, resolve, reject, timer });
+    });
+
+    try {
+      await this.handler(pending);
+    } catch (error) {
+      // Nobody is shown the request, so drop it instead of waiting for the timeout
+      if (this.entries.has(request.id)) this.take(request.id);
+      throw error;
+    }
+    return decision;
+  }
+
+  /**
+   * Let a pending request run
+   */
+  approve(id: number): void {
+    const entry = this.take(id);
+    entry.resolve();
+  }
+
+  /**
+   * Refuse a pending request; the dApp receives USER_REJECTED
+   */
+  reject(id: number, reason?: string): void {
+    const entry = this.entries.has(id) ? this.take(id) : undefined;
+    entry?.reject(new WalletRequestError(SDK_ERRORS.USER_REJECTED, reason));
+  }
+
+  /**
+   * Requests waiting for an answer, oldest first
+   */
+  getPending(): PendingRequest[] {
+    return [...this.entries.values()].map((entry) => entry.request);
+  }
+
+  private take(id: number): QueueEntry {
+    const entry = this.entries.get(id);
+    if (!entry) throw new Error(`No pending request ${id}`);
+
+    clearTimeout(entry.timer);
+    this.entries.delete(id);
+    return entry;
+  }
+}
+
+/**
+ * Describe a request for the approval prompt
+ *
+ * Parameters that cannot be decoded are shown raw rather than failing, so
+ * the user can still reject a malformed request. For stx_callContract the
+ * wallet passes the transaction it built, so the prompt shows its fee and nonce.
+ */
+export function summarizeRequest(
+  method: string,
+  params: unknown = {},
+  built?: StacksTransactionWire
+): RequestSummary {
+  try {
+    // Narrows params to the method's *Params shape, or falls through to the raw view
+    validateRequestParams(method, params);
+
+    switch (method) {
+      case 'stx_getAddresses':
+        return { title: 'Share your addresses', details: {}, warnings: [] };
+
+      case 'stx_transferStx': {
+        const transfer = params as TransferStxParams;
+        return {
+          title: `Send ${transfer.amount} uSTX`,
+          details: {
+            from: transfer.sender,
+            to: transfer.recipient,
+            ...(transfer.memo && { memo: transfer.memo }),
+          },
+          warnings: [],
+        };
+      }
+
+      case 'stx_callContract': {
+        const transaction = built
+          ? summarizeTransaction(built)
+          : summarizeContractCall(params as CallContractParams);
+        return {
+          title: `Call ${transaction.contract}::${transaction.functionName}`,
+          details: describeTransaction(transaction),
+          warnings: transaction.warnings,
+          transaction,
+        };
+      }
+
+      case 'stx_signTransaction': {
+        const { transaction: hex, broadcast } = params as SignTransactionParams;
+        const transaction = summarizeTransaction(hex);
+        return {
+          title: broadcast ? 'Sign and broadcast a transaction' : 'Sign a transaction',
+          details: describeTransaction(transaction),
+          warnings: transaction.warnings,
+          transaction,
+        };
+      }
+
+      case 'stx_signMessage': {
+        const { address, message } = params as SignMessageParams;
+        return { title: 'Sign a message', details: { address, message }, warnings: [] };
+      }
+
+      case 'stx_signStructuredMessage': {
+        const { message, domain: domainParam } = params as SignStructuredMessageParams;
+        const domain = parseStructuredDataDomain(domainParam);
+        return {
+          title: `Sign structured data for ${domain.name} ${domain.version}`,
+          details: {
+            chainId: String(domain.chainId),
+            message: cvToString(parseStructuredMessage(message)),
+          },
+          warnings: [],
+        };
+      }
+    }
+  } catch {
+    // Fall through to the raw parameters
+  }
+
+  return { title: method, details: { params: JSON.stringify(params) }, warnings: [] };
+}
+
+// Flattens a transaction summary into labelled prompt values
+function describeTransaction(transaction: TransactionSummary): Record<string, string> {
+  return {
+    type: transaction.type,
+    ...(transaction.contract && { contract: transaction.contract }),
+    ...(transaction.functionName && { function: transaction.functionName }),
+    ...Object.fromEntries((transaction.args || []).map((arg, index) => [`arg${index + 1}`, arg])),
+    ...(transaction.recipient && { to: transaction.recipient }),
+    ...(transaction.amount && { amount: `${transaction.amount} uSTX` }),
+    ...(transaction.memo && { memo: transaction.memo }),
+    ...(transaction.fee && { fee: `${transaction.fee} uSTX` }),
+    ...(transaction.nonce && { nonce: transaction.nonce }),
+    postConditionMode: transaction.postConditionMode,
+    ...Object.fromEntries(
+      transaction.postConditions.map((postCondition, index) => [
+        `postCondition${index + 1}`,
+        postCondition,
+      ])
+    ),
+  };
+}
@@ -0,0 +1,494 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import {
+  Cl,
+  broadcastTransaction,
+  cvToHex,
+  deserializeTransaction,
+  fetchNonce,
+  hexToCV,
+  privateKeyToPublic,
+  publicKeyToAddress,
+  publicKeyToHex,
+  validateStacksAddress,
+  ClarityType,
+  TransactionSigner,
+} from '@stacks/transactions';
+import { getStacksApiUrl, getTrustVaultConfig, CONTRACT_FUNCTIONS } from './config';
+import { decodeCredential } from './decoders';
+import { issueCredentialArgs } from './encoders';
+import { ContractAbortError, TrustVaultError } from './errors';
+import { hashClaim } from './hashing';
+import { TrustVaultTransactionBuilder, FeeTier } from './transaction-builder';
+import {
+  fetchTransaction,
+  waitForTransaction,
+  TransactionDroppedError,
+  TransactionTimeoutError,
+} from './transaction-tracker';
+import { validateIssueCredential } from './validation';
+import type { IssueCredentialParams, StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * Batch credential issuance with resumable progress
+ *
+ * Every row is validated, signed with sequential nonces and written to the
+ * progress file before it is broadcast, so a crashed run can be resumed
+ * without issuing any row twice.
+ */
+
+export interface CredentialRow {
+  subject: string;
+  claimHash?: string;
+  claim?: unknown; // claim document, hashed when no claimHash is given
+  expiration: number | bigint | string;
+  metadata?: string;
+}
+
+export type BatchRowStatus = 'invalid' | 'signed' | 'submitted' | 'confirmed' | 'failed';
+
+export interface BatchRowProgress {
+  index: number;
+  fingerprint: string; // detects rows edited between runs
+  status: BatchRowStatus;
+  subject?: string;
+  claimHash?: string;
+  txid?: string;
+  nonce?: string;
+  transaction?: string; // signed transaction, kept until broadcast succeeds
+  minCredentialNonce?: string; // credential-nonce when the row was signed
+  credentialNonce?: string;
+  error?: string;
+}
+
+export interface BatchProgress {
+  issuer: string;
+  contractId: string;
+  rows: Record<number, BatchRowProgress>;
+}
+
+export interface BatchIssuanceOptions {
+  privateKey: string;
+  progressPath: string;
+  network?: StacksNetwork;
+  apiUrl?: string;
+  contractAddress?: string;
+  contractName?: string;
+  feeTier?: FeeTier;
+  maxFee?: number | bigint;
+  confirmations?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  fetch?: typeof fetch;
+  onRow?: (row: BatchRowProgress) => void;
+}
+
+// Broadcast rejections meaning the transaction (or one with its nonce) is already known
+const ALREADY_BROADCAST_REASONS = ['ConflictingNonceInMempool'];
+
+/**
+ * Parse credential rows from a CSV (with a header line) or JSON array
+ */
+export function parseCredentialRows(content: string, format: 'csv' | 'json'): CredentialRow[] {
+  if (format === 'json') {
+    const rows = JSON.parse(content);
+    if (!Array.isArray(rows)) throw new Error('Expected a JSON array of credential rows');
+    return rows;
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) return [];
+
+  return records.map((record) => {
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      if (record[i] !== undefined && record[i] !== '') row[column.trim()] = record[i];
+    });
+    return {
+      subject: row.subject,
+      claimHash: row.claimHash,
+      claim: row.claim === undefined ? undefined : JSON.parse(row.claim),
+      expiration: row.expiration,
+      metadata: row.metadata,
+    };
+  });
+}
+
+export class BatchCredentialIssuer {
+  readonly issuer: string;
+  private apiUrl: string;
+  private builder: TrustVaultTransactionBuilder;
+  private options: BatchIssuanceOptions;
+  private progress!: BatchProgress;
+
+  constructor(options: BatchIssuanceOptions) {
+    this.options = options;
+    const network = options.network || (getTrustVaultConfig().network as StacksNetwork);
+    this.apiUrl = options.apiUrl || getStacksApiUrl(network);
+    this.builder = new TrustVaultTransactionBuilder({
+      network,
+      apiUrl: this.apiUrl,
+      contractAddress: options.contractAddress,
+      contractName: options.contractName,
+      feeTier: options.feeTier,
+      maxFee: options.maxFee,
+      fetch: options.fetch,
+    });
+    this.issuer = publicKeyToAddress(this.publicKey, this.builder.network);
+  }
+
+  private get publicKey(): string {
+    return publicKeyToHex(privateKeyToPublic(this.options.privateKey));
+  }
+
+  private get contractId(): string {
+    return `${this.builder.contractAddress}.${this.builder.contractName}`;
+  }
+
+  private get fetchFn(): typeof fetch {
+    return this.options.fetch || fetch;
+  }
+
+  /**
+   * Issue every row not yet confirmed, failed or invalid, and wait for them
+   */
+  async run(rows: CredentialRow[]): Promise<BatchProgress> {
+    this.progress = this.loadProgress();
+    const blockHeight = await this.builder.getBlockHeight();
+    const pending: Array<{ index: number; params: IssueCredentialParams }> = [];
+
+    rows.forEach((row, index) => {
+      const prepared = prepareRow(row);
+      const existing = this.progress.rows[index];
+      if (existing && existing.fingerprint !== prepared.fingerprint) {
+        // Rows that never reached the chain may be corrected and retried; a failed row
+        // keeps its txid once the node accepted it, and may still have been mined
+        const retriable =
+          existing.status === 'invalid' || (existing.status === 'failed' && !existing.txid);
+        if (!retriable) {
+          throw new Error(`Row ${index} changed since ${this.options.progressPath} was written`);
+        }
+      } else if (existing) {
+        return;
+      }
+
+      try {
+        if (prepared.error) throw new Error(prepared.error);
+        validateIssueCredential(prepared.params!, blockHeight);
+        pending.push({ index, params: prepared.params! });
+      } catch (error) {
+        this.update({
+          index,
+          fingerprint: prepared.fingerprint,
+          status: 'invalid',
+          error: errorMessage(error),
+        });
+      }
+    });
+
+    // Signed rows from a crashed run go out first, their nonces come before any new ones
+    for (const row of Object.values(this.progress.rows)) {
+      if (row.status !== 'signed') continue;
+      const reason = await this.broadcast(row);
+      // Another transaction took its nonce: sign the row again with a fresh one
+      if (reason === 'BadNonce' && rows[row.index]) {
+        pending.unshift({ index: row.index, params: prepareRow(rows[row.index]).params! });
+      }
+    }
+
+    if (pending.length > 0) {
+      const minCredentialNonce = (await this.readCredentialNonce()).toString();
+      let nonce = await this.fetchAccountNonce();
+
+      for (const { index, params } of pending) {
+        const fingerprint = prepareRow(rows[index]).fingerprint;
+        const row = { index, fingerprint, minCredentialNonce };
+        let reason = await this.broadcast(await this.sign(row, params, nonce));
+        // The account's nonce moved on since it was fetched: sign again with a fresh one
+        if (reason === 'BadNonce') {
+          nonce = await this.fetchAccountNonce();
+          reason = await this.broadcast(await this.sign(row, params, nonce));
+        }
+        // Later nonces would never confirm behind a rejected one
+        if (reason) break;
+        nonce += 1n;
+      }
+    }
+
+    for (const row of Object.values(this.progress.rows)) {
+      if (row.status === 'submitted') await this.confirm(row);
+    }
+
+    return this.progress;
+  }
+
+  /**
+   * Sign an issue-credential call for a row and record it before it is broadcast
+   */
+  private async sign(
+    row: Pick<BatchRowProgress, 'index' | 'fingerprint' | 'minCredentialNonce'>,
+    params: IssueCredentialParams,
+    nonce: bigint
+  ): Promise<BatchRowProgress> {
+    const unsigned = await this.builder.build(
+      CONTRACT_FUNCTIONS.issueCredential,
+      issueCredentialArgs(params),
+      { publicKey: this.publicKey, nonce }
+    );
+    const transaction = deserializeTransaction(unsigned.transaction);
+    new TransactionSigner(transaction).signOrigin(this.options.privateKey);
+
+    return this.update({
+      ...row,
+      status: 'signed',
+      subject: params.subject,
+      claimHash: params.claimHash,
+      txid: transaction.txid(),
+      nonce: nonce.toString(),
+      transaction: transaction.serialize(),
+    });
+  }
+
+  /**
+   * Broadcast a signed row, returning the node's rejection reason if it failed
+   */
+  private async broadcast(row: BatchRowProgress): Promise<string | undefined> {
+    const response = await broadcastTransaction({
+      transaction: deserializeTransaction(row.transaction!),
+      network: this.builder.network,
+      client: { baseUrl: this.apiUrl, fetch: this.options.fetch },
+    });
+
+    if ('error' in response && !ALREADY_BROADCAST_REASONS.includes(response.reason)) {
+      // A rebroadcast of a transaction that was already mined is rejected as BadNonce too
+      const known =
+        response.reason === 'BadNonce' &&
+        (await fetchTransaction(this.fetchFn, this.apiUrl, `0x${row.txid}`)) !== null;
+      if (!known) {
+        // The node never accepted the transaction, so it cannot reach the chain
+        this.update({
+          ...row,
+          status: 'failed',
+          txid: undefined,
+          nonce: undefined,
+          transaction: undefined,
+          error: `Broadcast failed: ${response.reason}`,
+        });
+        return response.reason;
+      }
+    }
+    this.update({ ...row, status: 'submitted', transaction: undefined });
+    return undefined;
+  }
+
+  private async fetchAccountNonce(): Promise<bigint> {
+    return fetchNonce({
+      address: this.issuer,
+      network: this.builder.network,
+      client: { baseUrl: this.apiUrl, fetch: this.options.fetch },
+    });
+  }
+
+  private async confirm(row: BatchRowProgress): Promise<void> {
+    try {
+      const confirmed = await waitForTransaction(row.txid!, {
+        apiUrl: this.apiUrl,
+        fetch: this.options.fetch,
+        confirmations: this.options.confirmations,
+        timeoutMs: this.options.timeoutMs,
+        pollIntervalMs: this.options.pollIntervalMs,
+      });
+      const credentialNonce = await this.resolveCredentialNonce(row, confirmed.txid);
+      this.update({
+        ...row,
+        status: 'confirmed',
+        credentialNonce: credentialNonce.toString(),
+        error: undefined,
+      });
+    } catch (error) {
+      // Still pending: keep the row so the next run picks it up again
+      if (error instanceof TransactionTimeoutError) return;
+
+      // Only an abort or a dropped transaction settles the row; API errors keep it
+      // submitted, since the credential may already exist on-chain
+      const settled =
+        error instanceof TrustVaultError ||
+        error instanceof ContractAbortError ||
+        error instanceof TransactionDroppedError;
+      this.update({ ...row, status: settled ? 'failed' : 'submitted', error: errorMessage(error) });
+    }
+  }
+
+  /**
+   * Find the credential nonce a confirmed issue-credential call was assigned
+   *
+   * `credential-nonce` is global and may be bumped by other calls, so the
+   * value at the end of the block is only an upper bound and the value when
+   * the row was signed a lower one: scan between them for this issuer's
+   * credential with the row's subject and hash.
+   */
+  private async resolveCredentialNonce(row: BatchRowProgress, txid: string): Promise<bigint> {
+    const fetchFn = this.fetchFn;
+    const tx = await fetchTransaction(fetchFn, this.apiUrl, txid);
+    if (!tx?.index_block_hash) throw new Error(`Transaction ${txid} is not in a block`);
+    const tipQuery = `tip=${tx.index_block_hash.replace(/^0x/, '')}`;
+    const [address, name] = this.contractId.split('.');
+    const upper = await this.readCredentialNonce(tipQuery);
+    const lower = BigInt(row.minCredentialNonce ?? 0);
+
+    const claimed = new Set(
+      Object.values(this.progress.rows)
+        .filter((other) => other.credentialNonce !== undefined)
+        .map((other) => other.credentialNonce)
+    );
+
+    for (let nonce = upper - 1n; nonce >= lower; nonce--) {
+      if (claimed.has(nonce.toString())) continue;
+
+      const key = Cl.tuple({ issuer: Cl.principal(this.issuer), nonce: Cl.uint(nonce) });
+      const entryResponse = await fetchFn(
+        `${this.apiUrl}/v2/map_entry/${address}/${name}/credentials?proof=0&${tipQuery}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(cvToHex(key)),
+        }
+      );
+      if (!entryResponse.ok) {
+        throw new Error(`Failed to read credential ${nonce}: ${entryResponse.status}`);
+      }
+
+      const entry = hexToCV(((await entryResponse.json()) as { data: string }).data);
+      if (entry.type !== ClarityType.OptionalSome) continue;
+      const credential = decodeCredential(entry.value);
+      if (credential.subject === row.subject && credential.claimHash === row.claimHash) {
+        return nonce;
+      }
+    }
+
+    throw new Error(`No credential matching transaction ${txid} was found`);
+  }
+
+  /**
+   * Read the contract's credential-nonce, at the chain tip unless a tip query is given
+   */
+  private async readCredentialNonce(tipQuery?: string): Promise<bigint> {
+    const [address, name] = this.contractId.split('.');
+    const query = tipQuery ? `proof=0&${tipQuery}` : 'proof=0';
+    const response = await this.fetchFn(
+      `${this.apiUrl}/v2/data_var/${address}/${name}/credential-nonce?${query}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to read credential-nonce: ${response.status}`);
+    }
+    const nonceCV = hexToCV(((await response.json()) as { data: string }).data);
+    if (nonceCV.type !== ClarityType.UInt) throw new Error('credential-nonce is not a uint');
+    return BigInt(nonceCV.value);
+  }
+
+  private loadProgress(): BatchProgress {
+    const { progressPath } = this.options;
+    if (!existsSync(progressPath)) {
+      return { issuer: this.issuer, contractId: this.contractId, rows: {} };
+    }
+
+    const progress = JSON.parse(readFileSync(progressPath, 'utf8')) as BatchProgress;
+    if (progress.issuer !== this.issuer || progress.contractId !== this.contractId) {
+      throw new Error(
+        `${progressPath} belongs to ${progress.issuer} on ${progress.contractId}, not this issuer`
+      );
+    }
+    return progress;
+  }
+
+  private update(row: BatchRowProgress): BatchRowProgress {
+    this.progress.rows[row.index] = row;
+
+    // Write-then-rename so a crash never leaves a truncated progress file
+    const temporaryPath = `${this.options.progressPath}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(this.progress, null, 2));
+    renameSync(temporaryPath, this.options.progressPath);
+
+    this.options.onRow?.(row);
+    return row;
+  }
+}
+
+// Normalize a row to issue-credential params, keeping parse errors for the report
+function prepareRow(row: CredentialRow): {
+  params?: IssueCredentialParams;
+  fingerprint: string;
+  error?: string;
+} {
+  let params: IssueCredentialParams | undefined;
+  let error: string | undefined;
+
+  try {
+    if (!row.subject || !validateStacksAddress(row.subject)) {
+      throw new Error(`Invalid subject address: ${row.subject}`);
+    }
+    if (!row.claimHash && row.claim === undefined) {
+      throw new Error('Row needs a claimHash or a claim document');
+    }
+    if (!/^\d+$/.test(String(row.expiration))) {
+      throw new Error(`Invalid expiration: ${row.expiration}`);
+    }
+
+    params = {
+      subject: row.subject,
+      claimHash: (row.claimHash || hashClaim(row.claim)).replace(/^0x/, '').toLowerCase(),
+      expiration: BigInt(row.expiration),
+      metadata: row.metadata || '',
+    };
+  } catch (e) {
+    error = errorMessage(e);
+  }
+
+  const fingerprint = createHash('sha256')
+    .update(JSON.stringify(params ? { ...params, expiration: String(params.expiration) } : row))
+    .digest('hex');
+  return { params, fingerprint, error };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      if (record.some((value) => value !== '')) records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  record.push(field);
+  if (record.some((value) => value !== '')) records.push(record);
+  return records;
+}
@@ -0,0 +1,237 @@
+import {
+  ClarityAbi,
+  ClarityAbiFunction,
+  ClarityAbiType,
+  ClarityType,
+  abiFunctionToString,
+  fetchAbi,
+  hexToCV,
+  isClarityAbiBuffer,
+  isClarityAbiList,
+  isClarityAbiOptional,
+  isClarityAbiResponse,
+  isClarityAbiStringAscii,
+  isClarityAbiStringUtf8,
+  isClarityAbiTuple,
+} from '@stacks/transactions';
+
+/**
+ * Renders typed TypeScript bindings from a Clarity contract interface
+ *
+ * The output contains one call builder per public and read-only function,
+ * tuple types for every map and the contract's error constants.
+ */
+
+export interface ContractBindingsSource {
+  contractName: string;
+  abi: ClarityAbi;
+  // Error constant name (e.g. ERR-NOT-AUTHORIZED) to its uint code
+  errorConstants: Record<string, number>;
+}
+
+const ERROR_CONSTANT_PATTERN = /\(define-constant\s+(ERR-[A-Z0-9-]+)\s+\(err\s+u(\d+)\)\)/g;
+
+/**
+ * Extract `(define-constant ERR-... (err uN))` values from Clarity source
+ */
+export function parseErrorConstants(source: string): Record<string, number> {
+  const constants: Record<string, number> = {};
+  for (const match of source.matchAll(ERROR_CONSTANT_PATTERN)) {
+    constants[match[1]] = Number(match[2]);
+  }
+  return constants;
+}
+
+/**
+ * Load a contract interface and its error constants from a Stacks API node
+ */
+export async function loadBindingsSourceFromApi(
+  apiUrl: string,
+  contractId: string
+): Promise<ContractBindingsSource> {
+  const [contractAddress, contractName] = contractId.split('.');
+  const abi = await fetchAbi({ contractAddress, contractName, client: { baseUrl: apiUrl } });
+
+  const errorConstants: Record<string, number> = {};
+  for (const variable of errorVariables(abi)) {
+    const url = `${apiUrl}/v2/constant_val/${contractAddress}/${contractName}/${variable.name}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch constant ${variable.name}: ${response.status}`);
+    }
+
+    const { data } = (await response.json()) as { data: string };
+    const value = hexToCV(data);
+    if (value.type !== ClarityType.ResponseErr || value.value.type !== ClarityType.UInt) {
+      throw new Error(`Constant ${variable.name} is not an (err uint)`);
+    }
+    errorConstants[variable.name] = Number(value.value.value);
+  }
+
+  return { contractName, abi, errorConstants };
+}
+
+/**
+ * Render the bindings module for a contract
+ */
+export function renderBindings(source: ContractBindingsSource): string {
+  const { contractName, abi } = source;
+  const publicFunctions = abi.functions.filter((fn) => fn.access === 'public');
+  const readOnlyFunctions = abi.functions.filter((fn) => fn.access === 'read_only');
+
+  const declaredErrors = new Set(errorVariables(abi).map((variable) => variable.name));
+  const errors = Object.entries(source.errorConstants)
+    .filter(([name]) => declaredErrors.has(name))
+    .sort(([, a], [, b]) => a - b);
+  const missing = [...declaredErrors].filter((name) => !(name in source.errorConstants));
+  if (missing.length > 0) {
+    throw new Error(`Missing values for error constants: ${missing.join(', ')}`);
+  }
+
+  const lines: string[] = [
+    `// Generated by scripts/generate-bindings.ts from the ${contractName} contract interface.`,
+    '// Do not edit by hand: run `npm run generate:bindings` after changing the contract.',
+    '',
+    "import { Cl, ClarityValue } from '@stacks/transactions';",
+    '',
+    `export const CONTRACT_NAME = '${contractName}';`,
+    '',
+    'export interface ContractCall<F extends string = string> {',
+    '  contractName: typeof CONTRACT_NAME;',
+    '  functionName: F;',
+    '  functionArgs: ClarityValue[];',
+    '}',
+    '',
+    '// Buffer arguments accept raw bytes or hex strings, with or without a 0x prefix',
+    'export type BufferArg = Uint8Array | string;',
+    '',
+    'function buffer(value: BufferArg): ClarityValue {',
+    "  if (typeof value !== 'string') return Cl.buffer(value);",
+    "  return Cl.bufferFromHex(value.startsWith('0x') ? value.slice(2) : value);",
+    '}',
+    '',
+    '// Contract function names',
+    'export const CONTRACT_FUNCTIONS = {',
+    ...[...publicFunctions, ...readOnlyFunctions].map(
+      (fn) => `  ${camelCase(fn.name)}: '${fn.name}',`
+    ),
+    '} as const;',
+    '',
+    '// Error codes',
+    'export const ERROR_CODES = {',
+    ...errors.map(([name, code]) => `  ${name.replace(/^ERR-/, '').replace(/-/g, '_')}: ${code},`),
+    '} as const;',
+  ];
+
+  for (const map of abi.maps) {
+    const typeName = pascalCase(map.name);
+    if (isClarityAbiTuple(map.key)) {
+      lines.push('', `// Key of the \`${map.name}\` map`);
+      lines.push(`export type ${typeName}MapKey = ${valueType(map.key, '')};`);
+    }
+    lines.push('', `// Value stored in the \`${map.name}\` map`);
+    lines.push(`export type ${typeName}MapValue = ${valueType(map.value, '')};`);
+  }
+
+  lines.push('', '// Public functions');
+  for (const fn of publicFunctions) lines.push('', ...renderFunction(fn));
+
+  lines.push('', '// Read-only functions');
+  for (const fn of readOnlyFunctions) lines.push('', ...renderFunction(fn));
+
+  return lines.join('\n') + '\n';
+}
+
+function errorVariables(abi: ClarityAbi) {
+  return abi.variables.filter(
+    (variable) =>
+      variable.access === 'constant' &&
+      variable.name.startsWith('ERR-') &&
+      isClarityAbiResponse(variable.type)
+  );
+}
+
+function renderFunction(fn: ClarityAbiFunction): string[] {
+  const params = fn.args.map((arg) => `${camelCase(arg.name)}: ${argType(arg.type)}`);
+  const encodedArgs = fn.args.map((arg) => encodeArg(arg.type, camelCase(arg.name), 0));
+
+  return [
+    `/** ${abiFunctionToString(fn).replace(' ))', '))')} */`,
+    `export function ${camelCase(fn.name)}(${params.join(', ')}): ContractCall<'${fn.name}'> {`,
+    '  return {',
+    '    contractName: CONTRACT_NAME,',
+    `    functionName: '${fn.name}',`,
+    `    functionArgs: [${encodedArgs.join(', ')}],`,
+    '  };',
+    '}',
+  ];
+}
+
+// TypeScript type accepted for a function argument
+function argType(type: ClarityAbiType): string {
+  if (type === 'uint128' || type === 'int128') return 'number | bigint';
+  if (type === 'bool') return 'boolean';
+  if (type === 'principal' || type === 'trait_reference') return 'string';
+  if (isClarityAbiBuffer(type)) return 'BufferArg';
+  if (isClarityAbiStringAscii(type) || isClarityAbiStringUtf8(type)) return 'string';
+  if (isClarityAbiOptional(type)) return `${argType(type.optional)} | null`;
+  if (isClarityAbiList(type)) return `Array<${argType(type.list.type)}>`;
+  if (isClarityAbiTuple(type)) {
+    const fields = type.tuple.map((field) => `'${field.name}': ${argType(field.type)}`);
+    return `{ ${fields.join('; ')} }`;
+  }
+  throw new Error(`Unsupported argument type: ${JSON.stringify(type)}`);
+}
+
+// TypeScript type of a decoded value: buffers as hex, uints as bigint, optionals as null
+function valueType(type: ClarityAbiType, indent: string): string {
+  if (type === 'uint128' || type === 'int128') return 'bigint';
+  if (type === 'bool') return 'boolean';
+  if (type === 'principal' || type === 'trait_reference') return 'string';
+  if (type === 'none') return 'null';
+  if (isClarityAbiBuffer(type)) return 'string';
+  if (isClarityAbiStringAscii(type) || isClarityAbiStringUtf8(type)) return 'string';
+  if (isClarityAbiOptional(type)) return `${valueType(type.optional, indent)} | null`;
+  if (isClarityAbiList(type)) return `Array<${valueType(type.list.type, indent)}>`;
+  if (isClarityAbiTuple(type)) {
+    const fields = type.tuple.map(
+      (field) => `${indent}  '${field.name}': ${valueType(field.type, indent + '  ')};`
+    );
+    return ['{', ...fields, `${indent}}`].join('\n');
+  }
+  throw new Error(`Unsupported value type: ${JSON.stringify(type)}`);
+}
+
+// Expression encoding `expr` as a Clarity value of the given type
+function encodeArg(type: ClarityAbiType, expr: string, depth: number): string {
+  if (type === 'uint128') return `Cl.uint(${expr})`;
+  if (type === 'int128') return `Cl.int(${expr})`;
+  if (type === 'bool') return `Cl.bool(${expr})`;
+  if (type === 'principal' || type === 'trait_reference') return `Cl.principal(${expr})`;
+  if (isClarityAbiBuffer(type)) return `buffer(${expr})`;
+  if (isClarityAbiStringAscii(type)) return `Cl.stringAscii(${expr})`;
+  if (isClarityAbiStringUtf8(type)) return `Cl.stringUtf8(${expr})`;
+  if (isClarityAbiOptional(type)) {
+    return `(${expr} === null ? Cl.none() : Cl.some(${encodeArg(type.optional, expr, depth)}))`;
+  }
+  if (isClarityAbiList(type)) {
+    const item = `item${depth}`;
+    return `Cl.list(${expr}.map((${item}) => ${encodeArg(type.list.type, item, depth + 1)}))`;
+  }
+  if (isClarityAbiTuple(type)) {
+    const fields = type.tuple.map(
+      (field) => `'${field.name}': ${encodeArg(field.type, `${expr}['${field.name}']`, depth)}`
+    );
+    return `Cl.tuple({ ${fields.join(', ')} })`;
+  }
+  throw new Error(`Unsupported argument type: ${JSON.stringify(type)}`);
+}
+
+function camelCase(name: string): string {
+  return name.replace(/[?!]/g, '').replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function pascalCase(name: string): string {
+  const camel = camelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
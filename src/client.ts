@@ -0,0 +1,193 @@
+import { Cl, ClarityValue, cvToHex } from '@stacks/transactions';
+import { getNetworkConfig, getTrustVaultConfig, CONTRACT_FUNCTIONS } from './config';
+import {
+  decodeBool,
+  decodeCredential,
+  decodeCredentialTimeInfo,
+  decodeIdentity,
+  decodeOptional,
+  decodeString,
+  decodeZkProof,
+} from './decoders';
+import { toBufferCV } from './encoders';
+import {
+  ApiReadOnlyResponse,
+  decodeReadOnlyResponse,
+  runSimnetCall,
+  unwrapContractResult,
+} from './errors';
+import type {
+  Identity,
+  Credential,
+  ZkProof,
+  CredentialTimeInfo,
+  TrustVaultNetwork,
+} from './types/trust-vault.types';
+
+/**
+ * Typed read-only client for the TrustVault contract
+ *
+ * Wraps every read-only function of the contract and returns plain
+ * TypeScript objects instead of raw Clarity values. Error responses are
+ * thrown as TrustVaultError.
+ */
+
+/**
+ * Executes a read-only function and returns its raw Clarity result
+ */
+export type ReadOnlyCaller = (
+  functionName: string,
+  functionArgs: ClarityValue[],
+  senderAddress: string
+) => Promise<ClarityValue>;
+
+/**
+ * Minimal subset of the clarinet-sdk simnet used by the client
+ */
+export interface SimnetLike {
+  deployer: string;
+  callReadOnlyFn(
+    contract: string,
+    method: string,
+    args: ClarityValue[],
+    sender: string
+  ): { result: ClarityValue };
+}
+
+export interface TrustVaultClientOptions {
+  network?: TrustVaultNetwork;
+  contractAddress?: string;
+  contractName?: string;
+  senderAddress?: string;
+  apiUrl?: string;
+  callReadOnly?: ReadOnlyCaller;
+}
+
+export class TrustVaultClient {
+  readonly network: TrustVaultNetwork;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  private senderAddress: string;
+  private callReadOnly: ReadOnlyCaller;
+
+  constructor(options: TrustVaultClientOptions = {}) {
+    this.network = options.network || (getTrustVaultConfig().network as TrustVaultNetwork);
+    const config = getNetworkConfig(this.network);
+
+    this.contractAddress = options.contractAddress || config.deployer;
+    this.contractName = options.contractName || config.contractName;
+    this.senderAddress = options.senderAddress || this.contractAddress;
+
+    const apiUrl = options.apiUrl || config.stacksApi;
+    this.callReadOnly =
+      options.callReadOnly ||
+      (async (functionName, functionArgs, senderAddress) => {
+        const url = `${apiUrl}/v2/contracts/call-read/${this.contractAddress}/${this.contractName}/${functionName}`;
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sender: senderAddress, arguments: functionArgs.map(cvToHex) }),
+        });
+        if (!response.ok) {
+          throw new Error(`Read-only call ${functionName} failed: ${response.status}`);
+        }
+        return decodeReadOnlyResponse((await response.json()) as ApiReadOnlyResponse);
+      });
+  }
+
+  /**
+   * Create a client that queries a clarinet simnet instead of the Stacks API
+   */
+  static fromSimnet(
+    simnet: SimnetLike,
+    options: { contractName?: string; senderAddress?: string } = {}
+  ): TrustVaultClient {
+    const contractName = options.contractName || 'trust-vault';
+    const contractId = `${simnet.deployer}.${contractName}`;
+
+    return new TrustVaultClient({
+      network: 'devnet',
+      contractAddress: simnet.deployer,
+      contractName,
+      senderAddress: options.senderAddress || simnet.deployer,
+      callReadOnly: async (functionName, functionArgs, senderAddress) =>
+        runSimnetCall(() =>
+          simnet.callReadOnlyFn(contractId, functionName, functionArgs, senderAddress)
+        ),
+    });
+  }
+
+  /**
+   * Get the identity registered by a principal
+   */
+  async getIdentity(identity: string): Promise<Identity | null> {
+    const result = await this.call(CONTRACT_FUNCTIONS.getIdentity, [Cl.principal(identity)]);
+    return decodeOptional(result, decodeIdentity);
+  }
+
+  /**
+   * Get a credential by issuer and nonce
+   */
+  async getCredential(issuer: string, nonce: number | bigint): Promise<Credential | null> {
+    const result = await this.call(CONTRACT_FUNCTIONS.getCredential, [
+      Cl.principal(issuer),
+      Cl.uint(nonce),
+    ]);
+    return decodeOptional(result, decodeCredential);
+  }
+
+  /**
+   * Check whether a credential is neither revoked nor expired
+   */
+  async verifyCredential(issuer: string, nonce: number | bigint): Promise<boolean> {
+    const result = await this.call(CONTRACT_FUNCTIONS.verifyCredential, [
+      Cl.principal(issuer),
+      Cl.uint(nonce),
+    ]);
+    return decodeBool(unwrapContractResult(result));
+  }
+
+  /**
+   * Get a zero-knowledge proof by its hash
+   */
+  async getProof(proofHash: string | Uint8Array): Promise<ZkProof | null> {
+    const result = await this.call(CONTRACT_FUNCTIONS.getProof, [toBufferCV(proofHash)]);
+    return decodeOptional(result, decodeZkProof);
+  }
+
+  /**
+   * Get the status string of an identity (e.g. "ACTIVE" or "RECOVERED")
+   */
+  async getIdentityStatusString(identity: string): Promise<string> {
+    const result = await this.call(CONTRACT_FUNCTIONS.getIdentityStatusString, [
+      Cl.principal(identity),
+    ]);
+    return decodeString(unwrapContractResult(result));
+  }
+
+  /**
+   * Get issuance and expiration timestamps of a credential
+   */
+  async getCredentialTimeInfo(issuer: string, nonce: number | bigint): Promise<CredentialTimeInfo> {
+    const result = await this.call(CONTRACT_FUNCTIONS.getCredentialTimeInfo, [
+      Cl.principal(issuer),
+      Cl.uint(nonce),
+    ]);
+    return decodeCredentialTimeInfo(unwrapContractResult(result));
+  }
+
+  /**
+   * Check whether a credential has passed its expiration timestamp
+   */
+  async isCredentialExpired(issuer: string, nonce: number | bigint): Promise<boolean> {
+    const result = await this.call(CONTRACT_FUNCTIONS.isCredentialExpired, [
+      Cl.principal(issuer),
+      Cl.uint(nonce),
+    ]);
+    return decodeBool(unwrapContractResult(result));
+  }
+
+  private call(functionName: string, functionArgs: ClarityValue[]): Promise<ClarityValue> {
+    return this.callReadOnly(functionName, functionArgs, this.senderAddress);
+  }
+}
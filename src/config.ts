@@ -43,63 +43,28 @@ export function getTrustVaultConfig() {
   return TRUST_VAULT_CONFIG[network as keyof typeof TRUST_VAULT_CONFIG];
 }
 
+// Stacks API for a network; devnet is a local `clarinet devnet` node
+export function getStacksApiUrl(network: 'mainnet' | 'testnet' | 'devnet'): string {
+  if (network === 'devnet') return 'http://localhost:3999';
+  return TRUST_VAULT_CONFIG[network].stacksApi;
+}
+
+// Contract defaults and Stacks API for a network; devnet uses the testnet deployer
+// (the Devnet.toml deployer) and a local node
+export function getNetworkConfig(network: 'mainnet' | 'testnet' | 'devnet') {
+  const config = TRUST_VAULT_CONFIG[network === 'mainnet' ? 'mainnet' : 'testnet'];
+  return { ...config, network, stacksApi: getStacksApiUrl(network) };
+}
+
 // Helper function to get Chainhook configuration
 export function getChainhookConfig() {
   const network = process.env.STACKS_NETWORK || 'mainnet';
   return CHAINHOOK_CONFIG[network as keyof typeof CHAINHOOK_CONFIG];
 }
 
-// Contract function names for reference
-export const CONTRACT_FUNCTIONS = {
-  // Identity Management
-  registerIdentity: 'register-identity',
-  initiateRecovery: 'initiate-recovery',
-  
-  // Credentials
-  issueCredential: 'issue-credential',
-  revokeCredential: 'revoke-credential',
-  
-  // Zero-Knowledge Proofs
-  submitProof: 'submit-proof',
-  verifyProof: 'verify-proof',
-  
-  // Reputation
-  updateReputation: 'update-reputation',
-  
-  // Emergency Controls
-  pauseContract: 'pause-contract',
-  unpauseContract: 'unpause-contract',
-  setPauseGuardian: 'set-pause-guardian',
-  
-  // Admin
-  setAdmin: 'set-admin',
-  
-  // Read-Only
-  getIdentity: 'get-identity',
-  getCredential: 'get-credential',
-  verifyCredential: 'verify-credential',
-  getProof: 'get-proof',
-  getIdentityStatusString: 'get-identity-status-string',
-  getCredentialTimeInfo: 'get-credential-time-info',
-  isCredentialExpired: 'is-credential-expired',
-} as const;
-
-// Error codes
-export const ERROR_CODES = {
-  NOT_AUTHORIZED: 1000,
-  ALREADY_REGISTERED: 1001,
-  NOT_REGISTERED: 1002,
-  INVALID_PROOF: 1003,
-  INVALID_CREDENTIAL: 1004,
-  EXPIRED_CREDENTIAL: 1005,
-  REVOKED_CREDENTIAL: 1006,
-  INVALID_SCORE: 1007,
-  INVALID_INPUT: 1008,
-  INVALID_EXPIRATION: 1009,
-  INVALID_RECOVERY_ADDRESS: 1010,
-  INVALID_PROOF_DATA: 1011,
-  CONTRACT_PAUSED: 1012,
-} as const;
+// Contract function names and error codes are generated from the contract
+// interface by scripts/generate-bindings.ts so they cannot drift from the .clar file
+export { CONTRACT_FUNCTIONS, ERROR_CODES } from './generated/trust-vault';
 
 // Helper to get error message
 export function getErrorMessage(errorCode: number): string {
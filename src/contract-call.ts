@@ -0,0 +1,179 @@
+import {
+  ClarityAbi,
+  ClarityValue,
+  createContractCallPayload,
+  deserializePostConditionWire,
+  fetchAbi,
+  hexToCV,
+  PostCondition,
+  validateContractCall,
+  validateStacksAddress,
+  wireToPostCondition,
+} from '@stacks/transactions';
+import { WalletRequestError } from './errors';
+import { InvalidParamsData, SDK_ERRORS, StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * Argument handling for stx_callContract
+ *
+ * dApps send the contract as "SP...address.contract-name" and each argument
+ * as a hex-serialized Clarity value. Arguments are checked against the
+ * contract's ABI before anything is signed; problems with the request
+ * surface as INVALID_PARAMS.
+ */
+
+export interface ContractId {
+  contractAddress: string;
+  contractName: string;
+}
+
+export interface ContractAbiCacheOptions {
+  // Stacks API, defaults to Hiro's API for the requested network
+  apiUrl?: string;
+  fetch?: typeof fetch;
+}
+
+const CONTRACT_NAME_PATTERN = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+
+function invalidParams(message: string, field: string): WalletRequestError {
+  const data: InvalidParamsData = { field };
+  return new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message, data);
+}
+
+/**
+ * Split a fully qualified contract identifier into address and name
+ */
+export function parseContractId(contract: string): ContractId {
+  const [contractAddress, contractName, ...rest] = String(contract).split('.');
+  if (
+    rest.length > 0 ||
+    !contractAddress ||
+    !contractName ||
+    !validateStacksAddress(contractAddress) ||
+    !CONTRACT_NAME_PATTERN.test(contractName) ||
+    contractName.length > 128
+  ) {
+    throw invalidParams(`Invalid contract identifier: ${contract}`, 'contract');
+  }
+  return { contractAddress, contractName };
+}
+
+/**
+ * Deserialize hex-encoded Clarity arguments
+ */
+export function decodeFunctionArgs(functionArgs: string[] = []): ClarityValue[] {
+  if (!Array.isArray(functionArgs)) {
+    throw invalidParams('functionArgs must be an array', 'functionArgs');
+  }
+
+  return functionArgs.map((arg, index) => {
+    try {
+      return hexToCV(String(arg).replace(/^0x/, ''));
+    } catch {
+      const message = `Argument ${index + 1} is not a serialized Clarity value`;
+      throw invalidParams(message, `functionArgs[${index}]`);
+    }
+  });
+}
+
+/**
+ * Deserialize hex-encoded post-conditions
+ */
+export function decodePostConditions(postConditions: string[] = []): PostCondition[] {
+  if (!Array.isArray(postConditions)) {
+    throw invalidParams('postConditions must be an array', 'postConditions');
+  }
+
+  return postConditions.map((hex, index) => {
+    try {
+      return wireToPostCondition(deserializePostConditionWire(String(hex).replace(/^0x/, '')));
+    } catch {
+      const message = `Post-condition ${index + 1} is not a serialized post-condition`;
+      throw invalidParams(message, `postConditions[${index}]`);
+    }
+  });
+}
+
+/**
+ * Check that a public function exists and accepts the arguments
+ */
+export function validateFunctionCall(
+  abi: ClarityAbi,
+  contract: ContractId,
+  functionName: string,
+  functionArgs: ClarityValue[]
+): void {
+  const fn = abi.functions.find((item) => item.name === functionName);
+  if (!fn) {
+    const message = `Contract ${contract.contractName} has no function ${functionName}`;
+    throw invalidParams(message, 'functionName');
+  }
+  if (fn.access !== 'public') {
+    const message = `Function ${functionName} is ${fn.access} and cannot be called`;
+    throw invalidParams(message, 'functionName');
+  }
+
+  const payload = createContractCallPayload(
+    contract.contractAddress,
+    contract.contractName,
+    functionName,
+    functionArgs
+  );
+  try {
+    validateContractCall(payload, abi);
+  } catch (error) {
+    throw invalidParams(error instanceof Error ? error.message : String(error), 'functionArgs');
+  }
+}
+
+/**
+ * Contract ABIs fetched from /v2/contracts/interface
+ *
+ * Deployed contracts are immutable, so entries never expire. Failed
+ * lookups are not cached.
+ */
+export class ContractAbiCache {
+  private apiUrl?: string;
+  private fetchFn?: typeof fetch;
+  private entries = new Map<string, Promise<ClarityAbi>>();
+
+  constructor(options: ContractAbiCacheOptions = {}) {
+    this.apiUrl = options.apiUrl;
+    this.fetchFn = options.fetch;
+  }
+
+  /**
+   * ABI of a deployed contract, throwing INVALID_PARAMS when it does not exist
+   */
+  async get(network: StacksNetwork, contract: ContractId): Promise<ClarityAbi> {
+    const key = `${network}:${contract.contractAddress}.${contract.contractName}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = this.fetchAbi(network, contract);
+      this.entries.set(key, entry);
+      entry.catch(() => this.entries.delete(key));
+    }
+    return entry;
+  }
+
+  private async fetchAbi(network: StacksNetwork, contract: ContractId): Promise<ClarityAbi> {
+    try {
+      return await fetchAbi({
+        ...contract,
+        network,
+        client: {
+          ...(this.apiUrl && { baseUrl: this.apiUrl }),
+          ...(this.fetchFn && { fetch: this.fetchFn }),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && /Response 404/.test(error.message)) {
+        throw invalidParams(
+          `Contract ${contract.contractAddress}.${contract.contractName} not found on ${network}`,
+          'contract'
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { ClarityType, ClarityValue, TupleCV } from '@stacks/transactions';
+import type {
+  Identity,
+  Credential,
+  ZkProof,
+  CredentialTimeInfo,
+} from './types/trust-vault.types';
+
+/**
+ * Decoders from raw Clarity values to the plain TrustVault types
+ */
+
+function unexpected(expected: string, value: ClarityValue): Error {
+  return new Error(`Expected Clarity ${expected}, got ${value.type}`);
+}
+
+export function decodeBuffer(value: ClarityValue): string {
+  if (value.type !== ClarityType.Buffer) throw unexpected('buffer', value);
+  return value.value;
+}
+
+export function decodeUint(value: ClarityValue): bigint {
+  if (value.type !== ClarityType.UInt) throw unexpected('uint', value);
+  return BigInt(value.value);
+}
+
+export function decodeBool(value: ClarityValue): boolean {
+  if (value.type === ClarityType.BoolTrue) return true;
+  if (value.type === ClarityType.BoolFalse) return false;
+  throw unexpected('bool', value);
+}
+
+export function decodePrincipal(value: ClarityValue): string {
+  if (
+    value.type !== ClarityType.PrincipalStandard &&
+    value.type !== ClarityType.PrincipalContract
+  ) {
+    throw unexpected('principal', value);
+  }
+  return value.value;
+}
+
+export function decodeString(value: ClarityValue): string {
+  if (value.type !== ClarityType.StringASCII && value.type !== ClarityType.StringUTF8) {
+    throw unexpected('string', value);
+  }
+  return value.value;
+}
+
+export function decodeList<T>(value: ClarityValue, decodeItem: (item: ClarityValue) => T): T[] {
+  if (value.type !== ClarityType.List) throw unexpected('list', value);
+  return value.value.map(decodeItem);
+}
+
+export function decodeOptional<T>(
+  value: ClarityValue,
+  decodeInner: (inner: ClarityValue) => T
+): T | null {
+  if (value.type === ClarityType.OptionalNone) return null;
+  if (value.type === ClarityType.OptionalSome) return decodeInner(value.value);
+  throw unexpected('optional', value);
+}
+
+function expectTuple(value: ClarityValue): TupleCV['value'] {
+  if (value.type !== ClarityType.Tuple) throw unexpected('tuple', value);
+  return value.value;
+}
+
+/**
+ * Decode a value of the `identities` map
+ */
+export function decodeIdentity(value: ClarityValue): Identity {
+  const tuple = expectTuple(value);
+  return {
+    hash: decodeBuffer(tuple['hash']),
+    credentials: decodeList(tuple['credentials'], decodePrincipal),
+    reputationScore: decodeUint(tuple['reputation-score']),
+    recoveryAddress: decodeOptional(tuple['recovery-address'], decodePrincipal),
+    lastUpdated: decodeUint(tuple['last-updated']),
+    lastUpdatedTime: decodeUint(tuple['last-updated-time']),
+    status: decodeString(tuple['status']),
+  };
+}
+
+/**
+ * Decode a value of the `credentials` map
+ */
+export function decodeCredential(value: ClarityValue): Credential {
+  const tuple = expectTuple(value);
+  return {
+    subject: decodePrincipal(tuple['subject']),
+    claimHash: decodeBuffer(tuple['claim-hash']),
+    expiration: decodeUint(tuple['expiration']),
+    expirationTime: decodeUint(tuple['expiration-time']),
+    revoked: decodeBool(tuple['revoked']),
+    issuedAt: decodeUint(tuple['issued-at']),
+    metadata: decodeString(tuple['metadata']),
+  };
+}
+
+/**
+ * Decode a value of the `zero-knowledge-proofs` map
+ */
+export function decodeZkProof(value: ClarityValue): ZkProof {
+  const tuple = expectTuple(value);
+  return {
+    prover: decodePrincipal(tuple['prover']),
+    verified: decodeBool(tuple['verified']),
+    timestamp: decodeUint(tuple['timestamp']),
+    timestampUnix: decodeUint(tuple['timestamp-unix']),
+    proofData: decodeBuffer(tuple['proof-data']),
+  };
+}
+
+/**
+ * Decode the tuple returned by `get-credential-time-info`
+ */
+export function decodeCredentialTimeInfo(value: ClarityValue): CredentialTimeInfo {
+  const tuple = expectTuple(value);
+  return {
+    issuedAt: decodeUint(tuple['issued-at']),
+    expirationTime: decodeUint(tuple['expiration-time']),
+    currentTime: decodeUint(tuple['current-time']),
+    isExpired: decodeBool(tuple['is-expired']),
+  };
+}
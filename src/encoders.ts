@@ -0,0 +1,66 @@
+import { Cl, ClarityValue } from '@stacks/transactions';
+import type {
+  RegisterIdentityParams,
+  SubmitProofParams,
+  VerifyProofParams,
+  IssueCredentialParams,
+  RevokeCredentialParams,
+  UpdateReputationParams,
+  InitiateRecoveryParams,
+  SetPauseGuardianParams,
+  SetAdminParams,
+} from './types/walletconnect.types';
+
+/**
+ * Encoders from TrustVault call parameters to Clarity function arguments
+ */
+
+export function toBufferCV(value: string | Uint8Array): ClarityValue {
+  if (typeof value !== 'string') return Cl.buffer(value);
+  return Cl.bufferFromHex(value.startsWith('0x') ? value.slice(2) : value);
+}
+
+function optionalPrincipal(address: string | null | undefined): ClarityValue {
+  return address ? Cl.some(Cl.principal(address)) : Cl.none();
+}
+
+export function registerIdentityArgs(params: RegisterIdentityParams): ClarityValue[] {
+  return [toBufferCV(params.identityHash), optionalPrincipal(params.recoveryAddress)];
+}
+
+export function submitProofArgs(params: SubmitProofParams): ClarityValue[] {
+  return [toBufferCV(params.proofHash), toBufferCV(params.proofData)];
+}
+
+export function verifyProofArgs(params: VerifyProofParams): ClarityValue[] {
+  return [toBufferCV(params.proofHash)];
+}
+
+export function issueCredentialArgs(params: IssueCredentialParams): ClarityValue[] {
+  return [
+    Cl.principal(params.subject),
+    toBufferCV(params.claimHash),
+    Cl.uint(params.expiration),
+    Cl.stringUtf8(params.metadata),
+  ];
+}
+
+export function revokeCredentialArgs(params: RevokeCredentialParams): ClarityValue[] {
+  return [Cl.principal(params.issuer), Cl.uint(params.nonce)];
+}
+
+export function updateReputationArgs(params: UpdateReputationParams): ClarityValue[] {
+  return [Cl.principal(params.subject), Cl.int(params.scoreChange)];
+}
+
+export function initiateRecoveryArgs(params: InitiateRecoveryParams): ClarityValue[] {
+  return [Cl.principal(params.identity), toBufferCV(params.newHash)];
+}
+
+export function setPauseGuardianArgs(params: SetPauseGuardianParams): ClarityValue[] {
+  return [optionalPrincipal(params.guardian)];
+}
+
+export function setAdminArgs(params: SetAdminParams): ClarityValue[] {
+  return [Cl.principal(params.newAdmin)];
+}
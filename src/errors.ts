@@ -0,0 +1,183 @@
+import { ClarityType, ClarityValue, cvToString, hexToCV } from '@stacks/transactions';
+import { ERROR_CODES, getErrorMessage } from './config';
+import type { WalletConnectError } from './types/walletconnect.types';
+
+/**
+ * Typed errors for TrustVault contract calls
+ *
+ * Contract `(err u1000..u1012)` responses become TrustVaultError, anything
+ * else that aborts a call (runtime panics, post-conditions, foreign error
+ * values) becomes ContractAbortError. Wallet requests that fail for a
+ * reason the dApp should see throw WalletRequestError with its JSON-RPC code.
+ */
+
+export type TrustVaultErrorName = keyof typeof ERROR_CODES;
+
+const ERROR_NAMES = new Map<number, TrustVaultErrorName>(
+  Object.entries(ERROR_CODES).map(([name, code]) => [code, name as TrustVaultErrorName])
+);
+
+export class TrustVaultError extends Error {
+  readonly code: number;
+  readonly errorName: TrustVaultErrorName;
+
+  constructor(code: number, message?: string) {
+    const errorName = ERROR_NAMES.get(code);
+    if (!errorName) throw new RangeError(`Not a TrustVault error code: ${code}`);
+
+    super(message || getErrorMessage(code));
+    this.name = 'TrustVaultError';
+    this.code = code;
+    this.errorName = errorName;
+  }
+
+  /**
+   * Check whether a uint returned by the contract is a TrustVault error code
+   */
+  static isErrorCode(code: number): boolean {
+    return ERROR_NAMES.has(code);
+  }
+}
+
+export type ContractAbortReason = 'runtime' | 'post_condition' | 'response';
+
+export class ContractAbortError extends Error {
+  readonly reason: ContractAbortReason;
+  readonly result?: ClarityValue;
+
+  constructor(reason: ContractAbortReason, message: string, result?: ClarityValue) {
+    super(message);
+    this.name = 'ContractAbortError';
+    this.reason = reason;
+    this.result = result;
+  }
+}
+
+export class WalletRequestError extends Error {
+  readonly code: number;
+  // JSON-RPC error data, e.g. InvalidParamsData for INVALID_PARAMS
+  readonly data?: unknown;
+
+  // `error` is one of SDK_ERRORS; the message defaults to its generic text
+  constructor(error: WalletConnectError, message?: string, data?: unknown) {
+    super(message || error.message);
+    this.name = 'WalletRequestError';
+    this.code = error.code;
+    this.data = data ?? error.data;
+  }
+}
+
+export class BroadcastError extends Error {
+  // Rejection reason reported by the node, e.g. BadNonce
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Broadcast failed: ${reason}`);
+    this.name = 'BroadcastError';
+    this.reason = reason;
+  }
+}
+
+// Transaction fields returned by the Stacks API (/extended/v1/tx/{txid})
+export interface ApiTransactionResult {
+  tx_id?: string;
+  tx_status: string;
+  tx_result?: {
+    hex: string;
+    repr: string;
+  };
+  vm_error?: string | null;
+}
+
+// Body returned by /v2/contracts/call-read
+export interface ApiReadOnlyResponse {
+  okay: boolean;
+  result?: string;
+  cause?: string;
+}
+
+/**
+ * Unwrap a `(response ok err)` value, throwing a typed error for `err`
+ */
+export function unwrapContractResult(result: ClarityValue | string): ClarityValue {
+  const value = typeof result === 'string' ? hexToCV(result) : result;
+
+  if (value.type === ClarityType.ResponseOk) return value.value;
+  if (value.type !== ClarityType.ResponseErr) {
+    throw new ContractAbortError(
+      'response',
+      `Expected Clarity response, got ${cvToString(value)}`,
+      value
+    );
+  }
+
+  const errorValue = value.value;
+  if (errorValue.type === ClarityType.UInt) {
+    const code = Number(errorValue.value);
+    if (TrustVaultError.isErrorCode(code)) throw new TrustVaultError(code);
+  }
+
+  throw new ContractAbortError(
+    'response',
+    `Contract returned ${cvToString(value)}`,
+    value
+  );
+}
+
+/**
+ * Decode a read-only call response, throwing when the call did not evaluate
+ */
+export function decodeReadOnlyResponse(response: ApiReadOnlyResponse): ClarityValue {
+  if (!response.okay || !response.result) {
+    throw new ContractAbortError('runtime', response.cause || 'Read-only call failed');
+  }
+  return hexToCV(response.result);
+}
+
+/**
+ * Decode the result of a confirmed transaction fetched from the Stacks API
+ */
+export function decodeTransactionResult(tx: ApiTransactionResult): ClarityValue {
+  const result = tx.tx_result ? hexToCV(tx.tx_result.hex) : undefined;
+
+  if (tx.tx_status === 'abort_by_post_condition') {
+    throw new ContractAbortError('post_condition', 'Transaction aborted by post-condition', result);
+  }
+
+  if (tx.vm_error) {
+    throw new ContractAbortError('runtime', tx.vm_error, result);
+  }
+
+  if (tx.tx_status !== 'success' && tx.tx_status !== 'abort_by_response') {
+    throw new Error(`Transaction is not confirmed: ${tx.tx_status}`);
+  }
+
+  if (!result) throw new Error('Transaction has no result');
+
+  // Runtime panics such as unwrap-panic surface as (err none) without a vm_error
+  if (
+    tx.tx_status === 'abort_by_response' &&
+    result.type === ClarityType.ResponseErr &&
+    result.value.type === ClarityType.OptionalNone
+  ) {
+    throw new ContractAbortError('runtime', 'Transaction aborted by a runtime error', result);
+  }
+
+  return unwrapContractResult(result);
+}
+
+/**
+ * Run a clarinet simnet call, converting runtime panics to ContractAbortError
+ */
+export function runSimnetCall(call: () => { result: ClarityValue }): ClarityValue {
+  try {
+    return call().result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const runtime = message.match(/Runtime\((\w+)/);
+    if (runtime) {
+      throw new ContractAbortError('runtime', `Runtime error: ${runtime[1]}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,111 @@
+import type { SessionGrant } from './session-policy';
+import type {
+  StacksNetwork,
+  WalletConnectEvent,
+  WalletConnectMetadata,
+} from './types/walletconnect.types';
+
+/**
+ * Wallet events and logging
+ *
+ * StacksWalletConnect emits typed events that applications subscribe to
+ * for UIs and audit logs, and writes diagnostics through an injectable
+ * leveled Logger instead of the console.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface Logger {
+  debug(message: string, meta?: unknown): void;
+  info(message: string, meta?: unknown): void;
+  warn(message: string, meta?: unknown): void;
+  error(message: string, meta?: unknown): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Logger writing messages at or above a level to the console
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const enabled = (messageLevel: LogLevel) =>
+    LOG_LEVELS.indexOf(messageLevel) >= LOG_LEVELS.indexOf(level);
+
+  const write =
+    (messageLevel: Exclude<LogLevel, 'silent'>) => (message: string, meta?: unknown) => {
+      if (!enabled(messageLevel)) return;
+      if (meta === undefined) console[messageLevel](message);
+      else console[messageLevel](message, meta);
+    };
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+// Payloads of the WalletConnect events, as seen by the wallet
+export interface WalletConnectEventPayloads {
+  session_proposal: { id: number; dapp?: WalletConnectMetadata; origin: string | null };
+  session_request: { id: number; topic: string; method: string; chainId?: string };
+  session_delete: { topic: string };
+  session_update: { topic: string; grant: SessionGrant; accounts: string[] };
+  session_event: { topic: string; chainId: string; name: string; data: unknown };
+}
+
+export interface WalletEvents extends WalletConnectEventPayloads {
+  request_approved: { id: number; topic: string; method: string };
+  request_rejected: { id: number; topic: string; method: string; reason: string };
+  transaction_broadcast: { txid: string; transaction: string; network: StacksNetwork };
+  // Failures the wallet handled itself, e.g. by answering the dApp with an error
+  error: { error: Error; context: WalletConnectEvent | 'transaction_broadcast' };
+}
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+  /**
+   * Subscribe to an event, returning a function that unsubscribes
+   */
+  on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Call the listeners of an event; a throwing listener does not stop the others
+   */
+  protected emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    for (const listener of [...(this.listeners.get(event) || [])]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onListenerError(event, error);
+      }
+    }
+  }
+
+  // Listener failures must not break the flow that emitted the event
+  protected onListenerError(event: keyof Events, error: unknown): void {
+    console.error(`Listener for ${String(event)} failed`, error);
+  }
+}
@@ -0,0 +1,262 @@
+// Generated by scripts/generate-bindings.ts from the trust-vault contract interface.
+// Do not edit by hand: run `npm run generate:bindings` after changing the contract.
+
+import { Cl, ClarityValue } from '@stacks/transactions';
+
+export const CONTRACT_NAME = 'trust-vault';
+
+export interface ContractCall<F extends string = string> {
+  contractName: typeof CONTRACT_NAME;
+  functionName: F;
+  functionArgs: ClarityValue[];
+}
+
+// Buffer arguments accept raw bytes or hex strings, with or without a 0x prefix
+export type BufferArg = Uint8Array | string;
+
+function buffer(value: BufferArg): ClarityValue {
+  if (typeof value !== 'string') return Cl.buffer(value);
+  return Cl.bufferFromHex(value.startsWith('0x') ? value.slice(2) : value);
+}
+
+// Contract function names
+export const CONTRACT_FUNCTIONS = {
+  initiateRecovery: 'initiate-recovery',
+  issueCredential: 'issue-credential',
+  pauseContract: 'pause-contract',
+  registerIdentity: 'register-identity',
+  revokeCredential: 'revoke-credential',
+  setAdmin: 'set-admin',
+  setPauseGuardian: 'set-pause-guardian',
+  submitProof: 'submit-proof',
+  unpauseContract: 'unpause-contract',
+  updateReputation: 'update-reputation',
+  verifyProof: 'verify-proof',
+  getCredential: 'get-credential',
+  getCredentialTimeInfo: 'get-credential-time-info',
+  getIdentity: 'get-identity',
+  getIdentityStatusString: 'get-identity-status-string',
+  getProof: 'get-proof',
+  isCredentialExpired: 'is-credential-expired',
+  verifyCredential: 'verify-credential',
+} as const;
+
+// Error codes
+export const ERROR_CODES = {
+  NOT_AUTHORIZED: 1000,
+  ALREADY_REGISTERED: 1001,
+  NOT_REGISTERED: 1002,
+  INVALID_PROOF: 1003,
+  INVALID_CREDENTIAL: 1004,
+  EXPIRED_CREDENTIAL: 1005,
+  REVOKED_CREDENTIAL: 1006,
+  INVALID_SCORE: 1007,
+  INVALID_INPUT: 1008,
+  INVALID_EXPIRATION: 1009,
+  INVALID_RECOVERY_ADDRESS: 1010,
+  INVALID_PROOF_DATA: 1011,
+  CONTRACT_PAUSED: 1012,
+} as const;
+
+// Key of the `credentials` map
+export type CredentialsMapKey = {
+  'issuer': string;
+  'nonce': bigint;
+};
+
+// Value stored in the `credentials` map
+export type CredentialsMapValue = {
+  'claim-hash': string;
+  'expiration': bigint;
+  'expiration-time': bigint;
+  'issued-at': bigint;
+  'metadata': string;
+  'revoked': boolean;
+  'subject': string;
+};
+
+// Value stored in the `identities` map
+export type IdentitiesMapValue = {
+  'credentials': Array<string>;
+  'hash': string;
+  'last-updated': bigint;
+  'last-updated-time': bigint;
+  'recovery-address': string | null;
+  'reputation-score': bigint;
+  'status': string;
+};
+
+// Value stored in the `zero-knowledge-proofs` map
+export type ZeroKnowledgeProofsMapValue = {
+  'proof-data': string;
+  'prover': string;
+  'timestamp': bigint;
+  'timestamp-unix': bigint;
+  'verified': boolean;
+};
+
+// Public functions
+
+/** (define-public (initiate-recovery (identity principal) (new-hash (buff 32)))) */
+export function initiateRecovery(identity: string, newHash: BufferArg): ContractCall<'initiate-recovery'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'initiate-recovery',
+    functionArgs: [Cl.principal(identity), buffer(newHash)],
+  };
+}
+
+/** (define-public (issue-credential (subject principal) (claim-hash (buff 32)) (expiration uint) (metadata (string-utf8 256)))) */
+export function issueCredential(subject: string, claimHash: BufferArg, expiration: number | bigint, metadata: string): ContractCall<'issue-credential'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'issue-credential',
+    functionArgs: [Cl.principal(subject), buffer(claimHash), Cl.uint(expiration), Cl.stringUtf8(metadata)],
+  };
+}
+
+/** (define-public (pause-contract)) */
+export function pauseContract(): ContractCall<'pause-contract'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'pause-contract',
+    functionArgs: [],
+  };
+}
+
+/** (define-public (register-identity (identity-hash (buff 32)) (recovery-addr (optional principal)))) */
+export function registerIdentity(identityHash: BufferArg, recoveryAddr: string | null): ContractCall<'register-identity'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'register-identity',
+    functionArgs: [buffer(identityHash), (recoveryAddr === null ? Cl.none() : Cl.some(Cl.principal(recoveryAddr)))],
+  };
+}
+
+/** (define-public (revoke-credential (issuer principal) (nonce uint))) */
+export function revokeCredential(issuer: string, nonce: number | bigint): ContractCall<'revoke-credential'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'revoke-credential',
+    functionArgs: [Cl.principal(issuer), Cl.uint(nonce)],
+  };
+}
+
+/** (define-public (set-admin (new-admin principal))) */
+export function setAdmin(newAdmin: string): ContractCall<'set-admin'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'set-admin',
+    functionArgs: [Cl.principal(newAdmin)],
+  };
+}
+
+/** (define-public (set-pause-guardian (new-guardian (optional principal)))) */
+export function setPauseGuardian(newGuardian: string | null): ContractCall<'set-pause-guardian'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'set-pause-guardian',
+    functionArgs: [(newGuardian === null ? Cl.none() : Cl.some(Cl.principal(newGuardian)))],
+  };
+}
+
+/** (define-public (submit-proof (proof-hash (buff 32)) (proof-data (buff 1024)))) */
+export function submitProof(proofHash: BufferArg, proofData: BufferArg): ContractCall<'submit-proof'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'submit-proof',
+    functionArgs: [buffer(proofHash), buffer(proofData)],
+  };
+}
+
+/** (define-public (unpause-contract)) */
+export function unpauseContract(): ContractCall<'unpause-contract'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'unpause-contract',
+    functionArgs: [],
+  };
+}
+
+/** (define-public (update-reputation (subject principal) (score-change int))) */
+export function updateReputation(subject: string, scoreChange: number | bigint): ContractCall<'update-reputation'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'update-reputation',
+    functionArgs: [Cl.principal(subject), Cl.int(scoreChange)],
+  };
+}
+
+/** (define-public (verify-proof (proof-hash (buff 32)))) */
+export function verifyProof(proofHash: BufferArg): ContractCall<'verify-proof'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'verify-proof',
+    functionArgs: [buffer(proofHash)],
+  };
+}
+
+// Read-only functions
+
+/** (define-read-only (get-credential (issuer principal) (nonce uint))) */
+export function getCredential(issuer: string, nonce: number | bigint): ContractCall<'get-credential'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'get-credential',
+    functionArgs: [Cl.principal(issuer), Cl.uint(nonce)],
+  };
+}
+
+/** (define-read-only (get-credential-time-info (issuer principal) (nonce uint))) */
+export function getCredentialTimeInfo(issuer: string, nonce: number | bigint): ContractCall<'get-credential-time-info'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'get-credential-time-info',
+    functionArgs: [Cl.principal(issuer), Cl.uint(nonce)],
+  };
+}
+
+/** (define-read-only (get-identity (identity principal))) */
+export function getIdentity(identity: string): ContractCall<'get-identity'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'get-identity',
+    functionArgs: [Cl.principal(identity)],
+  };
+}
+
+/** (define-read-only (get-identity-status-string (identity principal))) */
+export function getIdentityStatusString(identity: string): ContractCall<'get-identity-status-string'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'get-identity-status-string',
+    functionArgs: [Cl.principal(identity)],
+  };
+}
+
+/** (define-read-only (get-proof (proof-hash (buff 32)))) */
+export function getProof(proofHash: BufferArg): ContractCall<'get-proof'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'get-proof',
+    functionArgs: [buffer(proofHash)],
+  };
+}
+
+/** (define-read-only (is-credential-expired (issuer principal) (nonce uint))) */
+export function isCredentialExpired(issuer: string, nonce: number | bigint): ContractCall<'is-credential-expired'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'is-credential-expired',
+    functionArgs: [Cl.principal(issuer), Cl.uint(nonce)],
+  };
+}
+
+/** (define-read-only (verify-credential (issuer principal) (nonce uint))) */
+export function verifyCredential(issuer: string, nonce: number | bigint): ContractCall<'verify-credential'> {
+  return {
+    contractName: CONTRACT_NAME,
+    functionName: 'verify-credential',
+    functionArgs: [Cl.principal(issuer), Cl.uint(nonce)],
+  };
+}
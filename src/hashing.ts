@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto';
+import type { TrustVaultClient } from './client';
+
+/**
+ * Canonical hashing of identity documents and credential claims
+ *
+ * Documents are serialized as JSON with object keys sorted by code unit,
+ * no insignificant whitespace and every string (keys included) normalized
+ * to Unicode NFC, then hashed with SHA-256 into the 32-byte hex value passed
+ * as `identity-hash`, `new-hash` or `claim-hash`.
+ */
+
+/**
+ * Serialize a JSON document canonically
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === 'boolean') return JSON.stringify(value);
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new TypeError(`Cannot canonicalize number ${value}`);
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'string') return JSON.stringify(value.normalize('NFC'));
+
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key.normalize('NFC'), item] as const)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    for (let i = 1; i < entries.length; i++) {
+      if (entries[i][0] === entries[i - 1][0]) {
+        throw new TypeError(`Duplicate key after normalization: ${entries[i][0]}`);
+      }
+    }
+    const members = entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`);
+    return `{${members.join(',')}}`;
+  }
+
+  throw new TypeError(`Cannot canonicalize ${typeof value} values`);
+}
+
+/**
+ * SHA-256 of a document's canonical JSON, as 64 hex characters
+ */
+export function hashDocument(document: unknown): string {
+  return createHash('sha256').update(canonicalize(document), 'utf8').digest('hex');
+}
+
+/**
+ * Hash an identity document into the `identity-hash` (or recovery `new-hash`) buffer
+ */
+export function hashIdentityDocument(document: unknown): string {
+  return hashDocument(document);
+}
+
+/**
+ * Hash a credential claim into the `claim-hash` buffer
+ */
+export function hashClaim(claim: unknown): string {
+  return hashDocument(claim);
+}
+
+/**
+ * Check that an identity document matches the hash registered on-chain
+ */
+export async function verifyIdentityDocument(
+  client: TrustVaultClient,
+  owner: string,
+  document: unknown
+): Promise<boolean> {
+  const identity = await client.getIdentity(owner);
+  return identity !== null && identity.hash === hashIdentityDocument(document);
+}
+
+/**
+ * Check that a claim matches the hash of an issued credential
+ */
+export async function verifyClaim(
+  client: TrustVaultClient,
+  issuer: string,
+  nonce: number | bigint,
+  claim: unknown
+): Promise<boolean> {
+  const credential = await client.getCredential(issuer, nonce);
+  return credential !== null && credential.claimHash === hashClaim(claim);
+}
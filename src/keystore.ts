@@ -0,0 +1,277 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt as scryptCallback,
+  ScryptOptions,
+} from 'node:crypto';
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { privateKeyToPublic, publicKeyToHex, StacksTransactionWire } from '@stacks/transactions';
+import { AccountProvider, MnemonicAccountProvider, WalletAccount } from './accounts';
+import { LocalKeySigner, Signer } from './signer';
+
+/**
+ * Encrypted on-disk keystore for wallet keys
+ *
+ * Holds a mnemonic or a single private key encrypted with AES-256-GCM under
+ * a key derived from the password with scrypt. The accounts' public keys are
+ * stored in the clear (and authenticated with the ciphertext) so the wallet
+ * can list accounts while locked; signing needs the keystore unlocked, and
+ * it locks itself again after an idle timeout.
+ */
+
+export type KeystoreSecret =
+  | { mnemonic: string; passphrase?: string }
+  | { privateKey: string };
+
+export interface ScryptParams {
+  N: number; // CPU/memory cost, a power of two
+  r: number;
+  p: number;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  kind: 'mnemonic' | 'privateKey';
+  accounts: WalletAccount[];
+  kdf: { name: 'scrypt'; salt: string } & ScryptParams;
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+}
+
+export interface KeystoreOptions {
+  // Lock again after this long without signing, defaults to 5 minutes; 0 disables
+  autoLockMs?: number;
+}
+
+export interface CreateKeystoreOptions extends KeystoreOptions {
+  // Accounts derived from a mnemonic, defaults to 1
+  accountCount?: number;
+  // Defaults to N=2^17, r=8, p=1; lower only for tests
+  scrypt?: ScryptParams;
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 17, r: 8, p: 1 };
+
+const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+const KEY_LENGTH = 32;
+
+export class Keystore implements AccountProvider {
+  private path: string;
+  private file: KeystoreFile;
+  private autoLockMs: number;
+  private unlocked: { getSigner(index: number): Signer } | null = null;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  private constructor(path: string, file: KeystoreFile, options: KeystoreOptions) {
+    this.path = path;
+    this.file = file;
+    this.autoLockMs = options.autoLockMs ?? DEFAULT_AUTO_LOCK_MS;
+  }
+
+  /**
+   * Encrypt a secret into a new keystore file and return it unlocked
+   */
+  static async create(
+    path: string,
+    secret: KeystoreSecret,
+    password: string,
+    options: CreateKeystoreOptions = {}
+  ): Promise<Keystore> {
+    const accounts = await getSecretAccounts(secret, options.accountCount ?? 1);
+    const file = await encrypt(secret, accounts, password, options.scrypt);
+    writeKeystoreFile(path, file);
+
+    const keystore = new Keystore(path, file, options);
+    keystore.open(secret);
+    return keystore;
+  }
+
+  /**
+   * Read a keystore file; it starts locked
+   */
+  static load(path: string, options: KeystoreOptions = {}): Keystore {
+    const file = JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile;
+    if (file.version !== 1 || file.kdf?.name !== 'scrypt' || file.cipher?.name !== 'aes-256-gcm') {
+      throw new Error(`Unsupported keystore format: ${path}`);
+    }
+    return new Keystore(path, file, options);
+  }
+
+  async getAccounts(): Promise<WalletAccount[]> {
+    return this.file.accounts.map((account) => ({ ...account }));
+  }
+
+  isLocked(): boolean {
+    return this.unlocked === null;
+  }
+
+  /**
+   * Decrypt the keys, throwing on a wrong password
+   */
+  async unlock(password: string): Promise<void> {
+    this.open(await decrypt(this.file, password));
+  }
+
+  /**
+   * Forget the decrypted keys
+   */
+  lock(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.unlocked = null;
+  }
+
+  /**
+   * Re-encrypt the keys under a new password with a fresh salt and IV
+   */
+  async changePassword(password: string, newPassword: string): Promise<void> {
+    const secret = await decrypt(this.file, password);
+    const { N, r, p } = this.file.kdf;
+
+    this.file = await encrypt(secret, this.file.accounts, newPassword, { N, r, p });
+    writeKeystoreFile(this.path, this.file);
+  }
+
+  /**
+   * Reveal the stored mnemonic or private key, e.g. for a backup
+   */
+  async export(password: string): Promise<KeystoreSecret> {
+    return decrypt(this.file, password);
+  }
+
+  /**
+   * Signer for one account; it fails while the keystore is locked
+   */
+  getSigner(index = 0): Signer {
+    const account = this.file.accounts.find((candidate) => candidate.index === index);
+    if (!account) throw new RangeError(`No account ${index} in the keystore`);
+
+    return {
+      getPublicKey: async () => account.publicKey,
+      signTransaction: async (transaction: StacksTransactionWire) =>
+        this.use(index).signTransaction(transaction),
+      signMessageHash: async (messageHash: string) => this.use(index).signMessageHash(messageHash),
+    };
+  }
+
+  private open(secret: KeystoreSecret): void {
+    this.unlocked =
+      'mnemonic' in secret
+        ? new MnemonicAccountProvider(secret.mnemonic, { passphrase: secret.passphrase })
+        : { getSigner: () => new LocalKeySigner(secret.privateKey) };
+    this.touch();
+  }
+
+  // Signer of an unlocked account, restarting the idle timer
+  private use(index: number): Signer {
+    if (!this.unlocked) throw new Error('Keystore is locked');
+
+    this.touch();
+    return this.unlocked.getSigner(index);
+  }
+
+  private touch(): void {
+    clearTimeout(this.timer);
+    if (this.autoLockMs <= 0) return;
+
+    this.timer = setTimeout(() => this.lock(), this.autoLockMs);
+    this.timer.unref?.();
+  }
+}
+
+async function getSecretAccounts(
+  secret: KeystoreSecret,
+  accountCount: number
+): Promise<WalletAccount[]> {
+  if ('mnemonic' in secret) {
+    const provider = new MnemonicAccountProvider(secret.mnemonic, {
+      accountCount,
+      passphrase: secret.passphrase,
+    });
+    return provider.getAccounts();
+  }
+
+  // Wallet addresses come from compressed public keys, so keys need the 01 suffix
+  if (!/^[0-9a-fA-F]{64}01$/.test(secret.privateKey)) {
+    throw new Error('Invalid private key, expected 33 bytes of hex ending in 01');
+  }
+  return [{ index: 0, publicKey: publicKeyToHex(privateKeyToPublic(secret.privateKey)) }];
+}
+
+async function encrypt(
+  secret: KeystoreSecret,
+  accounts: WalletAccount[],
+  password: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<KeystoreFile> {
+  if (!password) throw new Error('A keystore password is required');
+
+  const kind = 'mnemonic' in secret ? 'mnemonic' : 'privateKey';
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(password, salt, params);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(getAssociatedData(kind, accounts));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secret), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    kind,
+    accounts,
+    kdf: { name: 'scrypt', salt: salt.toString('hex'), ...params },
+    cipher: {
+      name: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+    },
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+async function decrypt(file: KeystoreFile, password: string): Promise<KeystoreSecret> {
+  const { salt, N, r, p } = file.kdf;
+  const key = await deriveKey(password, Buffer.from(salt, 'hex'), { N, r, p });
+
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'hex'));
+  decipher.setAAD(getAssociatedData(file.kind, file.accounts));
+  decipher.setAuthTag(Buffer.from(file.cipher.tag, 'hex'));
+
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(file.ciphertext, 'hex')),
+      decipher.final(),
+    ]);
+  } catch {
+    // GCM cannot tell a wrong password from a modified file
+    throw new Error('Incorrect keystore password or corrupted keystore');
+  }
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+// Binds the clear-text header to the ciphertext so swapped public keys are detected
+function getAssociatedData(kind: KeystoreFile['kind'], accounts: WalletAccount[]): Buffer {
+  return Buffer.from(JSON.stringify({ version: 1, kind, accounts }), 'utf8');
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  const options: ScryptOptions = {
+    ...params,
+    // Node's default 32 MiB limit is below what N=2^17, r=8 needs
+    maxmem: 256 * params.N * params.r,
+  };
+  return new Promise((resolve, reject) => {
+    scryptCallback(password.normalize('NFKC'), salt, KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+function writeKeystoreFile(path: string, file: KeystoreFile): void {
+  // Write-then-rename so a crash never leaves a truncated file; readable by the owner only
+  const temporaryPath = `${path}.tmp`;
+  writeFileSync(temporaryPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  renameSync(temporaryPath, path);
+}
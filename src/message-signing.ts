@@ -0,0 +1,91 @@
+import { createHash } from 'node:crypto';
+import { PubKeyEncoding, publicKeyFromSignatureRsv, publicKeyToAddress } from '@stacks/transactions';
+import type { Signer } from './signer';
+import { isStacksMainnetAddress } from './types/walletconnect.types';
+
+/**
+ * Stacks signed messages (stx_signMessage)
+ *
+ * Messages are prefixed with "\x17Stacks Signed Message:\n" and their
+ * varint-encoded byte length before hashing with SHA-256, so a signed
+ * message can never be replayed as a transaction or structured data.
+ */
+
+const MESSAGE_PREFIX = '\x17Stacks Signed Message:\n';
+
+// Bitcoin-style CompactSize length prefix
+function encodeVarint(length: number): Uint8Array {
+  if (length < 0xfd) return Uint8Array.of(length);
+
+  const size = length <= 0xffff ? 2 : length <= 0xffffffff ? 4 : 8;
+  const bytes = new Uint8Array(1 + size);
+  bytes[0] = size === 2 ? 0xfd : size === 4 ? 0xfe : 0xff;
+  const view = new DataView(bytes.buffer, 1);
+  if (size === 2) view.setUint16(0, length, true);
+  else if (size === 4) view.setUint32(0, length, true);
+  else view.setBigUint64(0, BigInt(length), true);
+  return bytes;
+}
+
+/**
+ * Encode a message with the Stacks signed-message prefix
+ */
+export function encodeStacksMessage(message: string | Uint8Array): Uint8Array {
+  const content = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const prefix = new TextEncoder().encode(MESSAGE_PREFIX);
+  return Buffer.concat([prefix, encodeVarint(content.length), content]);
+}
+
+/**
+ * SHA-256 hash of a prefixed message, hex encoded
+ */
+export function hashStacksMessage(message: string | Uint8Array): string {
+  return createHash('sha256').update(encodeStacksMessage(message)).digest('hex');
+}
+
+/**
+ * Sign a message, returning the recoverable RSV signature and the signer's public key
+ */
+export async function signStacksMessage(
+  signer: Signer,
+  message: string | Uint8Array
+): Promise<{ signature: string; publicKey: string }> {
+  return {
+    signature: await signer.signMessageHash(hashStacksMessage(message)),
+    publicKey: await signer.getPublicKey(),
+  };
+}
+
+/**
+ * Check that a message was signed by the key behind a Stacks address
+ */
+export function verifyMessageSignature(
+  message: string | Uint8Array,
+  signature: string,
+  address: string
+): boolean {
+  return verifyMessageHashSignature(hashStacksMessage(message), signature, address);
+}
+
+/**
+ * Check that an RSV signature over a 32-byte hex hash recovers to a Stacks address
+ */
+export function verifyMessageHashSignature(
+  messageHash: string,
+  signature: string,
+  address: string
+): boolean {
+  const network = isStacksMainnetAddress(address) ? 'mainnet' : 'testnet';
+
+  let recovered: string[];
+  try {
+    const rsv = signature.replace(/^0x/, '');
+    recovered = [PubKeyEncoding.Compressed, PubKeyEncoding.Uncompressed].map((encoding) =>
+      publicKeyFromSignatureRsv(messageHash, rsv, encoding)
+    );
+  } catch {
+    return false;
+  }
+
+  return recovered.some((publicKey) => publicKeyToAddress(publicKey, network) === address);
+}
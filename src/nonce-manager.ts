@@ -0,0 +1,319 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { AddressVersion, createAddress } from '@stacks/transactions';
+import { getStacksApiUrl } from './config';
+
+/**
+ * Account nonce manager for concurrent transaction submission
+ *
+ * Nonces are reserved locally so concurrent calls from one account never
+ * collide, then reconciled with the Stacks API: executed nonces are
+ * forgotten, and reservations that never reached (or fell out of) the
+ * mempool are released as gaps to be reused or filled. Reconciliation runs
+ * again once the local state is older than the sync interval, or after the
+ * node rejects a nonce.
+ */
+
+export interface NonceReservation {
+  nonce: string;
+  txid?: string; // set once the transaction was broadcast
+  updatedAt: number;
+}
+
+// Per-account state; nonces are decimal strings so the state stays JSON
+export interface AccountNonceState {
+  next: string;
+  reservations: NonceReservation[];
+  released: string[];
+}
+
+export interface NonceStore {
+  load(address: string): Promise<AccountNonceState | null>;
+  save(address: string, state: AccountNonceState): Promise<void>;
+}
+
+export interface NonceManagerOptions {
+  // Stacks API for every account, defaults to Hiro's API for each account's network
+  apiUrl?: string;
+  fetch?: typeof fetch;
+  store?: NonceStore;
+  // How long a reservation may stay unbroadcast, or out of the mempool, before it is released
+  reservationTtlMs?: number;
+  // How long reconciled state is trusted before reserve() asks the API again
+  syncIntervalMs?: number;
+}
+
+// Body of /extended/v1/address/{address}/nonces
+interface ApiNonceInfo {
+  last_executed_tx_nonce: number | null;
+  last_mempool_tx_nonce: number | null;
+  possible_next_nonce: number;
+  detected_missing_nonces: number[];
+  detected_mempool_nonces?: number[];
+}
+
+const DEFAULT_RESERVATION_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_SYNC_INTERVAL_MS = 60 * 1000;
+
+export class MemoryNonceStore implements NonceStore {
+  private states = new Map<string, AccountNonceState>();
+
+  async load(address: string): Promise<AccountNonceState | null> {
+    const state = this.states.get(address);
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(address: string, state: AccountNonceState): Promise<void> {
+    this.states.set(address, structuredClone(state));
+  }
+}
+
+export class FileNonceStore implements NonceStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(address: string): Promise<AccountNonceState | null> {
+    return this.read()[address] || null;
+  }
+
+  async save(address: string, state: AccountNonceState): Promise<void> {
+    const states = this.read();
+    states[address] = state;
+
+    // Write-then-rename so a crash never leaves a truncated file
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(states, null, 2));
+    renameSync(temporaryPath, this.path);
+  }
+
+  private read(): Record<string, AccountNonceState> {
+    if (!existsSync(this.path)) return {};
+    return JSON.parse(readFileSync(this.path, 'utf8'));
+  }
+}
+
+export class NonceManager {
+  private apiUrl?: string;
+  private fetchFn?: typeof fetch;
+  private store: NonceStore;
+  private reservationTtlMs: number;
+  private syncIntervalMs: number;
+  private locks = new Map<string, Promise<unknown>>();
+  private syncedAt = new Map<string, number>(); // last reconciliation per account
+
+  constructor(options: NonceManagerOptions = {}) {
+    this.apiUrl = options.apiUrl;
+    this.fetchFn = options.fetch;
+    this.store = options.store || new MemoryNonceStore();
+    this.reservationTtlMs = options.reservationTtlMs ?? DEFAULT_RESERVATION_TTL_MS;
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  /**
+   * Reserve the next nonce for an account, reusing released gaps first
+   */
+  async reserve(address: string): Promise<bigint> {
+    return this.withLock(address, async () => {
+      const state = await this.load(address);
+      await this.reconcileIfStale(address, state);
+
+      let nonce: bigint;
+      if (state.released.length > 0) {
+        nonce = BigInt(state.released.shift()!);
+      } else {
+        nonce = BigInt(state.next);
+        state.next = (nonce + 1n).toString();
+      }
+
+      state.reservations.push({ nonce: nonce.toString(), updatedAt: Date.now() });
+      await this.store.save(address, state);
+      return nonce;
+    });
+  }
+
+  /**
+   * The nonce the next reservation would get, without reserving it
+   */
+  async peek(address: string): Promise<bigint> {
+    return this.withLock(address, async () => {
+      const state = await this.load(address);
+      await this.reconcileIfStale(address, state);
+      return BigInt(state.released[0] ?? state.next);
+    });
+  }
+
+  /**
+   * Record that the transaction using a reserved nonce was broadcast
+   */
+  async confirm(address: string, nonce: bigint, txid: string): Promise<void> {
+    await this.withLock(address, async () => {
+      const state = await this.load(address);
+      const reservation = state.reservations.find((entry) => entry.nonce === nonce.toString());
+      if (!reservation) throw new Error(`Nonce ${nonce} is not reserved for ${address}`);
+
+      reservation.txid = txid;
+      reservation.updatedAt = Date.now();
+      await this.store.save(address, state);
+    });
+  }
+
+  /**
+   * Give back a reserved nonce whose transaction was never broadcast
+   */
+  async release(address: string, nonce: bigint): Promise<void> {
+    await this.withLock(address, async () => {
+      const state = await this.load(address);
+      state.reservations = state.reservations.filter((entry) => entry.nonce !== nonce.toString());
+      addReleased(state, nonce);
+      await this.store.save(address, state);
+    });
+  }
+
+  /**
+   * Drop a reservation the node rejected as BadNonce and re-sync before the next reservation
+   *
+   * The nonce is not released for reuse: the node has seen it used already.
+   * Reconciliation frees it again if the API reports it missing after all.
+   */
+  async invalidate(address: string, nonce: bigint): Promise<void> {
+    await this.withLock(address, async () => {
+      const state = await this.load(address);
+      state.reservations = state.reservations.filter((entry) => entry.nonce !== nonce.toString());
+      await this.store.save(address, state);
+      this.syncedAt.delete(address);
+    });
+  }
+
+  /**
+   * Reconcile local state with the account's executed and mempool nonces
+   */
+  async sync(address: string): Promise<AccountNonceState> {
+    return this.withLock(address, async () => {
+      const state = await this.load(address);
+      await this.reconcile(address, state);
+      return structuredClone(state);
+    });
+  }
+
+  /**
+   * Nonces below the next nonce that no pending transaction is using
+   */
+  async findGaps(address: string): Promise<bigint[]> {
+    const state = await this.sync(address);
+    return state.released.map(BigInt);
+  }
+
+  /**
+   * Fill every nonce gap by sending a transaction for it, so later transactions can confirm
+   *
+   * `send` builds, signs and broadcasts a transaction with the given nonce
+   * (typically a minimal STX transfer) and resolves to its txid.
+   */
+  async fillGaps(address: string, send: (nonce: bigint) => Promise<string>): Promise<string[]> {
+    const txids: string[] = [];
+    for (const nonce of await this.findGaps(address)) {
+      await this.withLock(address, async () => {
+        const state = await this.load(address);
+        state.released = state.released.filter((entry) => entry !== nonce.toString());
+        state.reservations.push({ nonce: nonce.toString(), updatedAt: Date.now() });
+        await this.store.save(address, state);
+      });
+
+      try {
+        const txid = await send(nonce);
+        await this.confirm(address, nonce, txid);
+        txids.push(txid);
+      } catch (error) {
+        await this.release(address, nonce);
+        throw error;
+      }
+    }
+    return txids;
+  }
+
+  private async reconcile(address: string, state: AccountNonceState): Promise<void> {
+    const info = await this.fetchNonceInfo(address);
+    const executedNext =
+      info.last_executed_tx_nonce === null ? 0n : BigInt(info.last_executed_tx_nonce) + 1n;
+    const mempool = new Set((info.detected_mempool_nonces || []).map(String));
+    if (info.last_mempool_tx_nonce !== null) mempool.add(String(info.last_mempool_tx_nonce));
+    const expired = Date.now() - this.reservationTtlMs;
+
+    const reservations: NonceReservation[] = [];
+    for (const reservation of state.reservations) {
+      const nonce = BigInt(reservation.nonce);
+      if (nonce < executedNext) continue; // mined
+
+      // Never broadcast, or dropped from the mempool: the nonce is free again
+      if (!mempool.has(reservation.nonce) && reservation.updatedAt <= expired) {
+        addReleased(state, nonce);
+      } else {
+        reservations.push(reservation);
+      }
+    }
+    state.reservations = reservations;
+
+    // Missing nonces still held by a live reservation are about to be broadcast
+    for (const missing of info.detected_missing_nonces) {
+      if (!reservations.some((reservation) => reservation.nonce === String(missing))) {
+        addReleased(state, BigInt(missing));
+      }
+    }
+    state.released = state.released.filter(
+      (nonce) => BigInt(nonce) >= executedNext && !mempool.has(nonce)
+    );
+
+    const next = [BigInt(state.next), BigInt(info.possible_next_nonce), executedNext].reduce(
+      (max, value) => (value > max ? value : max)
+    );
+    state.next = next.toString();
+
+    await this.store.save(address, state);
+    this.syncedAt.set(address, Date.now());
+  }
+
+  private async reconcileIfStale(address: string, state: AccountNonceState): Promise<void> {
+    const syncedAt = this.syncedAt.get(address);
+    if (syncedAt === undefined || Date.now() - syncedAt >= this.syncIntervalMs) {
+      await this.reconcile(address, state);
+    }
+  }
+
+  private async fetchNonceInfo(address: string): Promise<ApiNonceInfo> {
+    const fetchFn = this.fetchFn || fetch;
+    const apiUrl = this.apiUrl || getStacksApiUrl(getAddressNetwork(address));
+    const response = await fetchFn(`${apiUrl}/extended/v1/address/${address}/nonces`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch nonces for ${address}: ${response.status}`);
+    }
+    return (await response.json()) as ApiNonceInfo;
+  }
+
+  private async load(address: string): Promise<AccountNonceState> {
+    return (await this.store.load(address)) || { next: '0', reservations: [], released: [] };
+  }
+
+  // Serialize state changes per account
+  private withLock<T>(address: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(address) || Promise.resolve();
+    const result = previous.then(task, task);
+    this.locks.set(address, result.catch(() => undefined));
+    return result;
+  }
+}
+
+// Devnet accounts share testnet's address version, so they need an explicit apiUrl
+function getAddressNetwork(address: string): 'mainnet' | 'testnet' {
+  const { version } = createAddress(address);
+  const mainnet = [AddressVersion.MainnetSingleSig, AddressVersion.MainnetMultiSig];
+  return mainnet.includes(version) ? 'mainnet' : 'testnet';
+}
+
+function addReleased(state: AccountNonceState, nonce: bigint): void {
+  const value = nonce.toString();
+  if (state.released.includes(value)) return;
+  state.released.push(value);
+  state.released.sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+}
@@ -0,0 +1,153 @@
+import { WalletRequestError } from './errors';
+import {
+  InvalidParamsData,
+  SDK_ERRORS,
+  STACKS_METHODS,
+  StacksMethod,
+} from './types/walletconnect.types';
+
+/**
+ * Runtime schemas for the parameters of Stacks JSON-RPC requests
+ *
+ * dApp parameters arrive as untyped JSON. Each method's parameters are
+ * checked against the shape of its *Params interface before the request
+ * reaches the approval prompt, so handlers can rely on field types. Values
+ * are checked in depth (addresses, amounts, Clarity arguments) by the
+ * handlers; both kinds of failure surface as INVALID_PARAMS with
+ * InvalidParamsData naming the field.
+ */
+
+type FieldType = 'string' | 'boolean' | 'object' | 'string[]';
+
+export interface FieldSchema {
+  type: FieldType | FieldType[];
+  optional?: boolean;
+  values?: readonly string[]; // allowed values of a string field
+  pattern?: RegExp; // for string[] fields, applied to each item
+  description?: string; // what the pattern accepts, for error data
+}
+
+export type ParamsSchema = Record<string, FieldSchema>;
+
+const NETWORK: FieldSchema = {
+  type: 'string',
+  optional: true,
+  values: ['mainnet', 'testnet', 'devnet'],
+};
+
+const HEX: Pick<FieldSchema, 'pattern' | 'description'> = {
+  pattern: /^(0x)?([0-9a-fA-F]{2})+$/,
+  description: 'hex string',
+};
+
+export const REQUEST_PARAMS_SCHEMAS: Record<StacksMethod, ParamsSchema> = {
+  stx_getAddresses: {},
+  stx_transferStx: {
+    sender: { type: 'string' },
+    recipient: { type: 'string' },
+    amount: { type: 'string', pattern: /^\d+$/, description: 'micro-STX integer string' },
+    memo: { type: 'string', optional: true },
+    network: NETWORK,
+  },
+  stx_signTransaction: {
+    transaction: { type: 'string', ...HEX },
+    broadcast: { type: 'boolean', optional: true },
+    network: NETWORK,
+  },
+  stx_signMessage: {
+    address: { type: 'string' },
+    message: { type: 'string' },
+    messageType: { type: 'string', optional: true, values: ['utf8', 'structured'] },
+    network: NETWORK,
+    domain: { type: 'string', optional: true },
+  },
+  stx_signStructuredMessage: {
+    message: { type: ['string', 'object'] },
+    domain: { type: ['string', 'object'] },
+  },
+  stx_callContract: {
+    contract: { type: 'string' },
+    functionName: { type: 'string' },
+    functionArgs: { type: 'string[]', ...HEX },
+    sender: { type: 'string', optional: true },
+    network: NETWORK,
+    postConditions: { type: 'string[]', optional: true, ...HEX },
+    postConditionMode: { type: 'string', optional: true, values: ['allow', 'deny'] },
+  },
+};
+
+/**
+ * Check that a method is supported and its parameters match its schema
+ *
+ * Unknown fields are ignored so dApps can send newer optional parameters.
+ */
+export function validateRequestParams(method: string, params: unknown): void {
+  if (!STACKS_METHODS.includes(method as StacksMethod)) {
+    const message = `Unsupported method: ${method}`;
+    throw new WalletRequestError(SDK_ERRORS.UNSUPPORTED_METHOD, message, { method });
+  }
+
+  const schema = REQUEST_PARAMS_SCHEMAS[method as StacksMethod];
+  // stx_getAddresses takes no parameters, so dApps may leave them out
+  if (params === undefined && Object.keys(schema).length === 0) return;
+  if (!isObject(params)) throw invalidField('params', 'object');
+
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    checkField(field, params[field], fieldSchema);
+  }
+}
+
+function checkField(field: string, value: unknown, schema: FieldSchema): void {
+  if (value === undefined || value === null) {
+    if (schema.optional) return;
+    throw invalidParams(`Missing required parameter: ${field}`, field, describeTypes(schema));
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some((type) => hasType(value, type))) {
+    throw invalidField(field, describeTypes(schema));
+  }
+
+  if (schema.values && !schema.values.includes(value as string)) {
+    throw invalidField(field, `one of ${schema.values.join(', ')}`);
+  }
+
+  if (schema.pattern) {
+    const pattern = schema.pattern;
+    const items: string[] = Array.isArray(value) ? value : [value as string];
+    const index = items.findIndex((item) => !pattern.test(item));
+    if (index >= 0) {
+      const name = Array.isArray(value) ? `${field}[${index}]` : field;
+      throw invalidField(name, schema.description || String(schema.pattern));
+    }
+  }
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'object':
+      return isObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeTypes(schema: FieldSchema): string {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.map((type) => (type === 'string[]' ? 'array of strings' : type)).join(' or ');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidField(field: string, expected: string): WalletRequestError {
+  return invalidParams(`Invalid parameter ${field}: expected ${expected}`, field, expected);
+}
+
+function invalidParams(message: string, field: string, expected: string): WalletRequestError {
+  const data: InvalidParamsData = { field, expected };
+  return new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message, data);
+}
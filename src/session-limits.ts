@@ -0,0 +1,261 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import type { PostCondition } from '@stacks/transactions';
+import { WalletRequestError } from './errors';
+import { SDK_ERRORS, StacksMethod } from './types/walletconnect.types';
+
+/**
+ * Spending and rate limits for WalletConnect sessions
+ *
+ * Caps how much STX a session may transfer per day, the fee of each
+ * transaction and how often each method may be called, so a compromised
+ * dApp cannot drain the wallet. Limits are configured per session topic,
+ * per dApp origin or as a default; usage counters live in a UsageStore so
+ * they survive restarts.
+ */
+
+export interface SessionLimits {
+  // Total uSTX transferred per UTC day
+  dailyMicroStx?: string | number | bigint;
+  // Highest fee of a single transaction, in uSTX
+  maxFee?: string | number | bigint;
+  requestsPerMinute?: Partial<Record<StacksMethod, number>>;
+}
+
+export interface SessionLimitsConfig {
+  // Applied to each session on its own; reconnecting starts from zero
+  default?: SessionLimits;
+  // Shared by every session of an origin, e.g. "https://app.example.com"
+  origins?: Record<string, SessionLimits>;
+  // By session topic; takes precedence over origin and default limits
+  sessions?: Record<string, SessionLimits>;
+}
+
+export interface LimitScope {
+  topic: string;
+  origin?: string | null;
+}
+
+// Usage of one session or origin; amounts are decimal strings so the state stays JSON
+export interface LimitUsage {
+  day: string; // UTC date the spent amount belongs to
+  spent: string;
+  requests: Record<string, number[]>; // request times within the last minute, by method
+}
+
+export interface UsageStore {
+  load(key: string): Promise<LimitUsage | null>;
+  save(key: string, usage: LimitUsage): Promise<void>;
+}
+
+export class MemoryUsageStore implements UsageStore {
+  private usage = new Map<string, LimitUsage>();
+
+  async load(key: string): Promise<LimitUsage | null> {
+    const usage = this.usage.get(key);
+    return usage ? structuredClone(usage) : null;
+  }
+
+  async save(key: string, usage: LimitUsage): Promise<void> {
+    this.usage.set(key, structuredClone(usage));
+  }
+}
+
+export class FileUsageStore implements UsageStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(key: string): Promise<LimitUsage | null> {
+    return this.read()[key] || null;
+  }
+
+  async save(key: string, usage: LimitUsage): Promise<void> {
+    const all = this.read();
+    all[key] = usage;
+
+    // Write-then-rename so a crash never leaves a truncated file
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(all, null, 2));
+    renameSync(temporaryPath, this.path);
+  }
+
+  private read(): Record<string, LimitUsage> {
+    if (!existsSync(this.path)) return {};
+    return JSON.parse(readFileSync(this.path, 'utf8'));
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class SessionLimiter {
+  private config: SessionLimitsConfig;
+  private store: UsageStore;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(config: SessionLimitsConfig = {}, store: UsageStore = new MemoryUsageStore()) {
+    const all = [
+      config.default,
+      ...Object.values(config.origins || {}),
+      ...Object.values(config.sessions || {}),
+    ];
+    for (const limits of all) {
+      if (limits?.dailyMicroStx !== undefined) parseLimit(limits.dailyMicroStx, 'dailyMicroStx');
+      if (limits?.maxFee !== undefined) parseLimit(limits.maxFee, 'maxFee');
+    }
+
+    this.config = config;
+    this.store = store;
+  }
+
+  /**
+   * Load limits from a JSON file with the SessionLimitsConfig fields
+   */
+  static fromFile(path: string, store?: UsageStore): SessionLimiter {
+    return new SessionLimiter(JSON.parse(readFileSync(path, 'utf8')), store);
+  }
+
+  /**
+   * Count a request against its method's per-minute limit
+   */
+  async checkRequest(scope: LimitScope, method: string, now: number = Date.now()): Promise<void> {
+    const resolved = this.resolve(scope);
+    const limit = resolved?.limits.requestsPerMinute?.[method as StacksMethod];
+    if (!resolved || limit === undefined) return;
+
+    await this.withLock(resolved.key, async () => {
+      const usage = await this.load(resolved.key, now);
+      const recent = (usage.requests[method] || []).filter((at) => at > now - MINUTE_MS);
+      if (recent.length >= limit) {
+        throw limitExceeded(`Rate limit of ${limit} ${method} requests per minute exceeded`);
+      }
+
+      usage.requests[method] = [...recent, now];
+      await this.store.save(resolved.key, usage);
+    });
+  }
+
+  /**
+   * Check a transaction fee against the maximum fee
+   */
+  checkFee(scope: LimitScope, fee: bigint): void {
+    const maxFee = this.resolve(scope)?.limits.maxFee;
+    if (maxFee === undefined) return;
+
+    const max = parseLimit(maxFee, 'maxFee');
+    if (fee > max) throw limitExceeded(`Fee of ${fee} uSTX exceeds the limit of ${max} uSTX`);
+  }
+
+  /**
+   * Count a transfer against the daily limit before it is signed
+   */
+  async reserveSpend(scope: LimitScope, amount: bigint, now: number = Date.now()): Promise<void> {
+    const resolved = this.resolve(scope);
+    if (resolved?.limits.dailyMicroStx === undefined) return;
+
+    const cap = parseLimit(resolved.limits.dailyMicroStx, 'dailyMicroStx');
+    await this.withLock(resolved.key, async () => {
+      const usage = await this.load(resolved.key, now);
+      const spent = BigInt(usage.spent);
+      if (spent + amount > cap) {
+        throw limitExceeded(
+          `Transfer of ${amount} uSTX exceeds the daily limit: ${spent} of ${cap} uSTX spent today`
+        );
+      }
+
+      usage.spent = (spent + amount).toString();
+      await this.store.save(resolved.key, usage);
+    });
+  }
+
+  /**
+   * Count the STX a contract call or deploy may move from the sender against the daily limit
+   *
+   * Only post-conditions bound what contract code transfers, so while a daily limit
+   * applies, allow-mode calls and "more than"/"at least" STX conditions on
+   * the sender are refused. Returns the amount reserved.
+   */
+  async reserveContractSpend(
+    scope: LimitScope,
+    sender: string,
+    postConditionMode: 'allow' | 'deny',
+    postConditions: PostCondition[],
+    now: number = Date.now()
+  ): Promise<bigint> {
+    if (this.resolve(scope)?.limits.dailyMicroStx === undefined) return 0n;
+    if (postConditionMode === 'allow') {
+      throw limitExceeded('Allow-mode contract transactions cannot be checked against the daily limit');
+    }
+
+    let amount = 0n;
+    for (const postCondition of postConditions) {
+      // The origin principal is the transaction's sender too
+      const address = postCondition.address === 'origin' ? sender : postCondition.address;
+      if (postCondition.type !== 'stx-postcondition' || address !== sender) continue;
+      if (postCondition.condition === 'gt' || postCondition.condition === 'gte') {
+        throw limitExceeded('STX post-conditions must cap the amount while a daily limit applies');
+      }
+      amount += BigInt(postCondition.amount);
+    }
+
+    await this.reserveSpend(scope, amount, now);
+    return amount;
+  }
+
+  /**
+   * Give back a reserved amount whose transaction was never broadcast
+   */
+  async releaseSpend(scope: LimitScope, amount: bigint, now: number = Date.now()): Promise<void> {
+    const resolved = this.resolve(scope);
+    if (resolved?.limits.dailyMicroStx === undefined) return;
+
+    await this.withLock(resolved.key, async () => {
+      const usage = await this.load(resolved.key, now);
+      const spent = BigInt(usage.spent) - amount;
+      usage.spent = (spent > 0n ? spent : 0n).toString();
+      await this.store.save(resolved.key, usage);
+    });
+  }
+
+  // Limits that apply to a scope and the key their usage is counted under
+  private resolve(scope: LimitScope): { limits: SessionLimits; key: string } | null {
+    const session = this.config.sessions?.[scope.topic];
+    if (session) return { limits: session, key: `session:${scope.topic}` };
+
+    const origin = scope.origin ? this.config.origins?.[scope.origin] : undefined;
+    if (origin) return { limits: origin, key: `origin:${scope.origin}` };
+
+    if (this.config.default) return { limits: this.config.default, key: `session:${scope.topic}` };
+    return null;
+  }
+
+  // Usage for the current day; the spent amount starts over at UTC midnight
+  private async load(key: string, now: number): Promise<LimitUsage> {
+    const day = new Date(now).toISOString().slice(0, 10);
+    const usage = (await this.store.load(key)) || { day, spent: '0', requests: {} };
+    return usage.day === day ? usage : { ...usage, day, spent: '0' };
+  }
+
+  // Serialize usage changes per key
+  private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const result = previous.then(task, task);
+    this.locks.set(key, result.catch(() => undefined));
+    return result;
+  }
+}
+
+function parseLimit(value: string | number | bigint, name: string): bigint {
+  try {
+    const limit = BigInt(value);
+    if (limit >= 0n) return limit;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid ${name} limit: ${value}`);
+}
+
+function limitExceeded(message: string): WalletRequestError {
+  return new WalletRequestError(SDK_ERRORS.LIMIT_EXCEEDED, message);
+}
@@ -0,0 +1,167 @@
+import { readFileSync } from 'node:fs';
+import type { SdkErrorKey } from '@walletconnect/utils';
+import {
+  STACKS_CHAINS,
+  STACKS_EVENTS,
+  STACKS_METHODS,
+  StacksMethod,
+} from './types/walletconnect.types';
+
+/**
+ * Session proposal policy
+ *
+ * Decides which chains, methods and events a dApp is granted. Requested
+ * values are intersected with what the wallet supports and the policy
+ * allows; a proposal is rejected when anything it *requires* is missing
+ * from that intersection, or when its origin is not allowed.
+ */
+
+export interface SessionPolicyConfig {
+  // Only these origins may connect, e.g. "https://app.example.com" or "https://*.example.com"
+  allowedOrigins?: string[];
+  // These origins are always rejected, checked before the allowlist
+  deniedOrigins?: string[];
+  // Subsets of the supported chains and methods, default to all of them
+  chains?: string[];
+  methods?: StacksMethod[];
+}
+
+export interface ProposalNamespace {
+  chains?: string[];
+  methods?: string[];
+  events?: string[];
+}
+
+export interface SessionProposalParams {
+  requiredNamespaces?: Record<string, ProposalNamespace>;
+  optionalNamespaces?: Record<string, ProposalNamespace>;
+  proposer?: { metadata?: { url?: string } };
+}
+
+// Namespace granted to a session, before accounts are added
+export interface SessionGrant {
+  chains: string[];
+  methods: string[];
+  events: string[];
+}
+
+export class SessionPolicyError extends Error {
+  // Key of the WalletConnect SDK error the proposal is rejected with
+  readonly reason: SdkErrorKey;
+
+  constructor(reason: SdkErrorKey, message: string) {
+    super(message);
+    this.name = 'SessionPolicyError';
+    this.reason = reason;
+  }
+}
+
+const SUPPORTED_CHAINS: string[] = Object.values(STACKS_CHAINS);
+const SUPPORTED_EVENTS: string[] = [...STACKS_EVENTS];
+
+export class SessionPolicy {
+  private allowedOrigins?: string[];
+  private deniedOrigins: string[];
+  private chains: string[];
+  private methods: string[];
+
+  constructor(config: SessionPolicyConfig = {}) {
+    const unsupported = [
+      ...(config.chains || []).filter((chain) => !SUPPORTED_CHAINS.includes(chain)),
+      ...(config.methods || []).filter((method) => !STACKS_METHODS.includes(method)),
+    ];
+    if (unsupported.length > 0) {
+      throw new Error(`Session policy lists unsupported chains or methods: ${unsupported.join(', ')}`);
+    }
+
+    this.allowedOrigins = config.allowedOrigins;
+    this.deniedOrigins = config.deniedOrigins || [];
+    this.chains = config.chains || SUPPORTED_CHAINS;
+    this.methods = config.methods || STACKS_METHODS;
+  }
+
+  /**
+   * Load a policy from a JSON file with the SessionPolicyConfig fields
+   */
+  static fromFile(path: string): SessionPolicy {
+    return new SessionPolicy(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  /**
+   * Check whether a dApp origin may propose sessions
+   */
+  isOriginAllowed(origin: string | null): boolean {
+    if (origin && this.deniedOrigins.some((pattern) => matchOrigin(pattern, origin))) return false;
+    if (!this.allowedOrigins) return true;
+    return origin !== null && this.allowedOrigins.some((pattern) => matchOrigin(pattern, origin));
+  }
+
+  /**
+   * Decide what a proposal is granted, throwing SessionPolicyError to reject it
+   *
+   * `origin` should come from WalletConnect's verify context when available,
+   * since proposer metadata is self-reported by the dApp.
+   */
+  evaluate(params: SessionProposalParams, origin = getMetadataOrigin(params)): SessionGrant {
+    if (!this.isOriginAllowed(origin)) {
+      throw new SessionPolicyError('USER_REJECTED', `Origin ${origin ?? '(unknown)'} is not allowed`);
+    }
+
+    const required = params.requiredNamespaces || {};
+    const optional = params.optionalNamespaces || {};
+
+    const foreign = Object.keys(required).filter((key) => key !== 'stacks');
+    if (foreign.length > 0) {
+      throw new SessionPolicyError(
+        'UNSUPPORTED_NAMESPACE_KEY',
+        `Unsupported namespaces: ${foreign.join(', ')}`
+      );
+    }
+    if (!required.stacks && !optional.stacks) {
+      throw new SessionPolicyError('UNSUPPORTED_NAMESPACE_KEY', 'Proposal has no stacks namespace');
+    }
+
+    const requirements: [keyof SessionGrant, string[], SdkErrorKey][] = [
+      ['chains', this.chains, 'UNSUPPORTED_CHAINS'],
+      ['methods', this.methods, 'UNSUPPORTED_METHODS'],
+      ['events', SUPPORTED_EVENTS, 'UNSUPPORTED_EVENTS'],
+    ];
+
+    const grant: SessionGrant = { chains: [], methods: [], events: [] };
+    for (const [field, allowed, reason] of requirements) {
+      const needed = required.stacks?.[field] || [];
+      const missing = needed.filter((value) => !allowed.includes(value));
+      if (missing.length > 0) {
+        throw new SessionPolicyError(reason, `Unsupported ${field}: ${missing.join(', ')}`);
+      }
+
+      const wanted = [...needed, ...(optional.stacks?.[field] || [])];
+      grant[field] = [...new Set(wanted.filter((value) => allowed.includes(value)))];
+    }
+
+    if (grant.chains.length === 0) {
+      throw new SessionPolicyError('UNSUPPORTED_CHAINS', 'No supported chains requested');
+    }
+    return grant;
+  }
+}
+
+/**
+ * Origin of the proposer's self-reported metadata URL
+ */
+export function getMetadataOrigin(params: SessionProposalParams): string | null {
+  try {
+    return new URL(params.proposer?.metadata?.url || '').origin;
+  } catch {
+    return null;
+  }
+}
+
+// Exact origins, or "scheme://*.host" for any subdomain of host
+function matchOrigin(pattern: string, origin: string): boolean {
+  const wildcard = pattern.match(/^(\w+:\/\/)\*\.(.+)$/);
+  if (!wildcard) return pattern === origin;
+
+  const [, scheme, host] = wildcard;
+  return origin.startsWith(scheme) && origin.slice(scheme.length).endsWith(`.${host}`);
+}
@@ -0,0 +1,140 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import type { WalletAccount } from './accounts';
+import type { RequestSummary } from './approval-queue';
+import type { SessionGrant } from './session-policy';
+import type { WalletConnectMetadata } from './types/walletconnect.types';
+
+/**
+ * Wallet-side state of WalletConnect sessions
+ *
+ * WalletKit persists the sessions themselves; this store keeps what the
+ * wallet decided about each one (exposed accounts, the policy grant) and
+ * the requests it answered, keyed by session topic, so they survive a
+ * restart.
+ */
+
+export type SessionRequestStatus = 'completed' | 'rejected' | 'failed';
+
+export interface SessionRequestRecord {
+  id: number;
+  method: string;
+  status: SessionRequestStatus;
+  at: number;
+  error?: string; // message returned to the dApp
+  summary?: RequestSummary; // what the user was asked to approve
+}
+
+export interface StoredSession {
+  topic: string;
+  expiry: number; // unix seconds, as in ActiveSession
+  dapp?: WalletConnectMetadata;
+  origin?: string | null;
+  accounts: WalletAccount[];
+  grant: SessionGrant;
+  requests: SessionRequestRecord[];
+}
+
+export interface SessionStore {
+  load(topic: string): Promise<StoredSession | null>;
+  loadAll(): Promise<StoredSession[]>;
+  save(session: StoredSession): Promise<void>;
+  delete(topic: string): Promise<void>;
+}
+
+// Oldest request records are dropped beyond this many per session
+export const MAX_REQUEST_HISTORY = 100;
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+
+  async load(topic: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(topic);
+    return session ? structuredClone(session) : null;
+  }
+
+  async loadAll(): Promise<StoredSession[]> {
+    return [...this.sessions.values()].map((session) => structuredClone(session));
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.topic, structuredClone(session));
+  }
+
+  async delete(topic: string): Promise<void> {
+    this.sessions.delete(topic);
+  }
+}
+
+export class FileSessionStore implements SessionStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(topic: string): Promise<StoredSession | null> {
+    return this.read()[topic] || null;
+  }
+
+  async loadAll(): Promise<StoredSession[]> {
+    return Object.values(this.read());
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const sessions = this.read();
+    sessions[session.topic] = session;
+    this.write(sessions);
+  }
+
+  async delete(topic: string): Promise<void> {
+    const sessions = this.read();
+    if (!(topic in sessions)) return;
+
+    delete sessions[topic];
+    this.write(sessions);
+  }
+
+  private read(): Record<string, StoredSession> {
+    if (!existsSync(this.path)) return {};
+    return JSON.parse(readFileSync(this.path, 'utf8'));
+  }
+
+  private write(sessions: Record<string, StoredSession>): void {
+    // Write-then-rename so a crash never leaves a truncated file
+    const temporaryPath = `${this.path}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(sessions, null, 2));
+    renameSync(temporaryPath, this.path);
+  }
+}
+
+/**
+ * Delete sessions whose expiry has passed, returning their topics
+ */
+export async function pruneExpiredSessions(
+  store: SessionStore,
+  now: number = Date.now()
+): Promise<string[]> {
+  const expired = (await store.loadAll())
+    .filter((session) => session.expiry * 1000 <= now)
+    .map((session) => session.topic);
+
+  for (const topic of expired) {
+    await store.delete(topic);
+  }
+  return expired;
+}
+
+/**
+ * Append a request to a session's history, keeping the newest records
+ */
+export async function recordSessionRequest(
+  store: SessionStore,
+  topic: string,
+  record: SessionRequestRecord
+): Promise<void> {
+  const session = await store.load(topic);
+  if (!session) return;
+
+  session.requests = [...session.requests, record].slice(-MAX_REQUEST_HISTORY);
+  await store.save(session);
+}
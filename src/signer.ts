@@ -0,0 +1,126 @@
+import {
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  deserializeTransaction,
+  isSingleSig,
+  privateKeyToPublic,
+  publicKeyToHex,
+  signMessageHashRsv,
+  StacksTransactionWire,
+  TransactionSigner,
+} from '@stacks/transactions';
+import { WalletRequestError } from './errors';
+import { InvalidParamsData, SDK_ERRORS, StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * Signers used by the wallet to authorize Stacks transactions
+ *
+ * The wallet only talks to the Signer interface, so keys can live in memory,
+ * in an encrypted keystore or behind a hardware device.
+ */
+
+// Chain id of Stacks mainnet; testnet and devnet share 0x80000000
+const MAINNET_CHAIN_ID = 0x00000001;
+
+export interface Signer {
+  // Compressed public key, hex encoded
+  getPublicKey(): Promise<string>;
+  // Sign the transaction origin in place and return it
+  signTransaction(transaction: StacksTransactionWire): Promise<StacksTransactionWire>;
+  // Recoverable RSV signature of a 32-byte hex message hash
+  signMessageHash(messageHash: string): Promise<string>;
+}
+
+export class LocalKeySigner implements Signer {
+  private privateKey: string;
+
+  constructor(privateKey: string) {
+    this.privateKey = privateKey;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return publicKeyToHex(privateKeyToPublic(this.privateKey));
+  }
+
+  async signTransaction(transaction: StacksTransactionWire): Promise<StacksTransactionWire> {
+    new TransactionSigner(transaction).signOrigin(this.privateKey);
+    return transaction;
+  }
+
+  async signMessageHash(messageHash: string): Promise<string> {
+    return signMessageHashRsv({ messageHash, privateKey: this.privateKey });
+  }
+}
+
+/**
+ * Network a transaction was built for, from its chain id
+ */
+export function getTransactionNetwork(transaction: StacksTransactionWire): StacksNetwork {
+  return transaction.chainId === MAINNET_CHAIN_ID ? 'mainnet' : 'testnet';
+}
+
+/**
+ * Address of the account that pays for and signs a transaction's origin
+ */
+export function getTransactionOrigin(transaction: StacksTransactionWire): string {
+  const condition = transaction.auth.spendingCondition;
+  const network = getTransactionNetwork(transaction);
+  const version = addressHashModeToVersion(condition.hashMode, network);
+  return addressToString(addressFromVersionHash(version, condition.signer));
+}
+
+/**
+ * Deserialize, check and sign a hex-encoded transaction
+ *
+ * Rejects transactions built for another network, multi-sig origins and
+ * transactions whose origin is not the signer's account. Sponsored
+ * transactions are signed as the origin.
+ */
+export async function signSerializedTransaction(
+  signer: Signer,
+  transactionHex: string,
+  network?: StacksNetwork
+): Promise<{ transaction: StacksTransactionWire; signature: string }> {
+  const transaction = parseSerializedTransaction(transactionHex);
+
+  const expected = network === 'devnet' ? 'testnet' : network;
+  const actual = getTransactionNetwork(transaction);
+  if (expected && actual !== expected) {
+    throw invalidTransaction(`Transaction targets ${actual} but the session is on ${network}`);
+  }
+
+  const condition = transaction.auth.spendingCondition;
+  if (!isSingleSig(condition)) {
+    throw invalidTransaction('Multi-signature transactions are not supported');
+  }
+
+  await signer.signTransaction(transaction);
+
+  // Recovers the key from the new signature and checks it against the origin
+  try {
+    transaction.verifyOrigin();
+  } catch {
+    const message = "Transaction origin is not the signer's account";
+    throw new WalletRequestError(SDK_ERRORS.UNAUTHORIZED, message);
+  }
+
+  return { transaction, signature: condition.signature.data };
+}
+
+/**
+ * Deserialize a hex-encoded transaction sent by a dApp
+ */
+export function parseSerializedTransaction(transactionHex: string): StacksTransactionWire {
+  try {
+    return deserializeTransaction(String(transactionHex).replace(/^0x/, ''));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw invalidTransaction(`Invalid transaction: ${reason}`);
+  }
+}
+
+function invalidTransaction(message: string): WalletRequestError {
+  const data: InvalidParamsData = { field: 'transaction' };
+  return new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message, data);
+}
@@ -0,0 +1,239 @@
+import { createHash } from 'node:crypto';
+import {
+  Cl,
+  ClarityType,
+  ClarityValue,
+  encodeStructuredDataBytes,
+  hexToCV,
+} from '@stacks/transactions';
+import type { Signer } from './signer';
+import { verifyMessageHashSignature } from './message-signing';
+import type { StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * SIP-018 structured data signing (stx_signStructuredMessage)
+ *
+ * A structured message is a Clarity value bound to a domain tuple
+ * `{ name, version, chain-id }`; the signed hash is
+ * sha256("SIP018" || sha256(domain) || sha256(message)) over the
+ * consensus-serialized values.
+ */
+
+export interface StructuredDataDomain {
+  name: string;
+  version: string;
+  chainId: bigint;
+}
+
+// JSON description of a Clarity value, e.g. { "type": "uint", "value": "5" }
+export interface ClarityValueJson {
+  type: string; // a ClarityType
+  value?: unknown; // nested descriptions for responses, optionals, lists and tuples
+}
+
+// A domain given as plain fields rather than a Clarity tuple
+export interface StructuredDataDomainFields {
+  name: string;
+  version: string;
+  chainId: number | string;
+}
+
+export const CHAIN_IDS: Record<StacksNetwork, bigint> = {
+  mainnet: 1n,
+  testnet: 2147483648n,
+  devnet: 2147483648n,
+};
+
+export const TRUST_VAULT_DOMAIN_NAME = 'trust-vault';
+export const TRUST_VAULT_DOMAIN_VERSION = '1.0.0';
+
+/**
+ * Domain that trust-vault credential presentations are signed under
+ */
+export function getTrustVaultDomain(network: StacksNetwork): StructuredDataDomain {
+  return {
+    name: TRUST_VAULT_DOMAIN_NAME,
+    version: TRUST_VAULT_DOMAIN_VERSION,
+    chainId: CHAIN_IDS[network],
+  };
+}
+
+/**
+ * Rebuild a Clarity value from its JSON description
+ *
+ * The description uses the @stacks/transactions shape, e.g.
+ * `{ "type": "uint", "value": "5" }`, with integers as strings or numbers.
+ */
+export function clarityValueFromJson(json: unknown): ClarityValue {
+  if (typeof json !== 'object' || json === null || !('type' in json)) {
+    throw new TypeError('Expected a Clarity value description with a type');
+  }
+  const { type, value } = json as ClarityValueJson;
+
+  switch (type) {
+    case ClarityType.Int:
+      return Cl.int(integerValue(type, value));
+    case ClarityType.UInt:
+      return Cl.uint(integerValue(type, value));
+    case ClarityType.Buffer:
+      return Cl.bufferFromHex(stringValue(type, value).replace(/^0x/, ''));
+    case ClarityType.BoolTrue:
+      return Cl.bool(true);
+    case ClarityType.BoolFalse:
+      return Cl.bool(false);
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+      return Cl.principal(stringValue(type, value));
+    case ClarityType.ResponseOk:
+      return Cl.ok(clarityValueFromJson(value));
+    case ClarityType.ResponseErr:
+      return Cl.error(clarityValueFromJson(value));
+    case ClarityType.OptionalNone:
+      return Cl.none();
+    case ClarityType.OptionalSome:
+      return Cl.some(clarityValueFromJson(value));
+    case ClarityType.List:
+      if (!Array.isArray(value)) throw new TypeError('List value must be an array');
+      return Cl.list(value.map(clarityValueFromJson));
+    case ClarityType.Tuple:
+      if (typeof value !== 'object' || value === null) {
+        throw new TypeError('Tuple value must be an object');
+      }
+      return Cl.tuple(
+        Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, clarityValueFromJson(item)])
+        )
+      );
+    case ClarityType.StringASCII:
+      return Cl.stringAscii(stringValue(type, value));
+    case ClarityType.StringUTF8:
+      return Cl.stringUtf8(stringValue(type, value));
+    default:
+      throw new TypeError(`Unknown Clarity type: ${type}`);
+  }
+}
+
+function integerValue(type: string, value: unknown): bigint {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new TypeError(`${type} value must be an integer or integer string`);
+  }
+  return BigInt(value);
+}
+
+function stringValue(type: string, value: unknown): string {
+  if (typeof value !== 'string') throw new TypeError(`${type} value must be a string`);
+  return value;
+}
+
+/**
+ * Parse a structured message given as a hex-serialized Clarity value or a JSON description
+ */
+export function parseStructuredMessage(message: string | ClarityValueJson): ClarityValue {
+  if (typeof message !== 'string') return clarityValueFromJson(message);
+
+  const trimmed = message.trim();
+  if (trimmed.startsWith('{')) return clarityValueFromJson(JSON.parse(trimmed));
+  return hexToCV(trimmed.replace(/^0x/, ''));
+}
+
+/**
+ * Parse a SIP-018 domain given as a serialized tuple, its JSON description or plain fields
+ */
+export function parseStructuredDataDomain(
+  domain: string | ClarityValueJson | StructuredDataDomainFields
+): StructuredDataDomain {
+  // Parameters arrive as untyped JSON, so the fields are still checked one by one
+  const fields = domain as unknown as Record<string, unknown>;
+  if (typeof domain === 'object' && !('type' in domain)) {
+    return validateDomain({
+      name: fields.name,
+      version: fields.version,
+      chainId: fields.chainId ?? fields['chain-id'],
+    });
+  }
+
+  const value = parseStructuredMessage(domain as string | ClarityValueJson);
+  if (value.type !== ClarityType.Tuple) throw new TypeError('Domain must be a Clarity tuple');
+
+  const tuple = value.value;
+  const keys = Object.keys(tuple).sort();
+  if (keys.join(',') !== 'chain-id,name,version') {
+    throw new TypeError('Domain tuple must have exactly name, version and chain-id');
+  }
+  if (
+    tuple.name.type !== ClarityType.StringASCII ||
+    tuple.version.type !== ClarityType.StringASCII ||
+    tuple['chain-id'].type !== ClarityType.UInt
+  ) {
+    throw new TypeError('Domain name and version must be string-ascii, chain-id a uint');
+  }
+
+  return validateDomain({
+    name: tuple.name.value,
+    version: tuple.version.value,
+    chainId: tuple['chain-id'].value,
+  });
+}
+
+function validateDomain(fields: Record<string, unknown>): StructuredDataDomain {
+  const { name, version, chainId } = fields;
+  if (typeof name !== 'string' || typeof version !== 'string') {
+    throw new TypeError('Domain name and version must be strings');
+  }
+  if (chainId === undefined || chainId === null || !/^\d+$/.test(String(chainId))) {
+    throw new TypeError(`Invalid domain chain-id: ${chainId}`);
+  }
+  return { name, version, chainId: BigInt(chainId as string | number | bigint) };
+}
+
+/**
+ * The domain as the Clarity tuple that is hashed
+ */
+export function domainToClarityValue(domain: StructuredDataDomain): ClarityValue {
+  return Cl.tuple({
+    name: Cl.stringAscii(domain.name),
+    version: Cl.stringAscii(domain.version),
+    'chain-id': Cl.uint(domain.chainId),
+  });
+}
+
+/**
+ * SIP-018 hash of a message under a domain, hex encoded
+ */
+export function hashStructuredMessage(message: ClarityValue, domain: StructuredDataDomain): string {
+  const encoded = encodeStructuredDataBytes({ message, domain: domainToClarityValue(domain) });
+  return createHash('sha256').update(encoded).digest('hex');
+}
+
+/**
+ * Sign a structured message, returning the RSV signature and the signer's public key
+ */
+export async function signStructuredMessage(
+  signer: Signer,
+  message: ClarityValue,
+  domain: StructuredDataDomain
+): Promise<{ signature: string; publicKey: string }> {
+  return {
+    signature: await signer.signMessageHash(hashStructuredMessage(message, domain)),
+    publicKey: await signer.getPublicKey(),
+  };
+}
+
+/**
+ * Check a structured signature from an address under the domain the verifier expects
+ *
+ * The domain is part of the signed hash, so signatures made for another
+ * application, version or chain never verify.
+ */
+export function verifyStructuredMessage(
+  message: ClarityValue,
+  signature: string,
+  address: string,
+  expectedDomain: StructuredDataDomain
+): boolean {
+  return verifyMessageHashSignature(
+    hashStructuredMessage(message, expectedDomain),
+    signature,
+    address
+  );
+}
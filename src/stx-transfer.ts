@@ -0,0 +1,131 @@
+import {
+  fetchFeeEstimate,
+  makeUnsignedSTXTokenTransfer,
+  Pc,
+  postConditionToWire,
+  StacksTransactionWire,
+  validateStacksAddress,
+} from '@stacks/transactions';
+import { WalletRequestError } from './errors';
+import { InvalidParamsData, SDK_ERRORS, StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * STX transfers (stx_transferStx)
+ *
+ * Transfers carry a post-condition that the sender sends exactly the
+ * requested amount, so the signed transaction cannot move more STX than
+ * the dApp asked for.
+ */
+
+// Token transfer memos are a fixed 34-byte field
+export const MAX_MEMO_BYTES = 34;
+
+export interface StxTransferOptions {
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  memo?: string;
+  publicKey: string;
+  nonce: bigint;
+  network: StacksNetwork;
+  apiUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface StxBalanceOptions {
+  apiUrl: string;
+  fetch?: typeof fetch;
+}
+
+function invalidParams(message: string, field: string): WalletRequestError {
+  const data: InvalidParamsData = { field };
+  return new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message, data);
+}
+
+/**
+ * Parse a positive micro-STX amount given as an integer string
+ */
+export function parseMicroStx(amount: string): bigint {
+  if (typeof amount !== 'string' || !/^\d+$/.test(amount)) {
+    throw invalidParams(`Amount must be a micro-STX integer string, got ${amount}`, 'amount');
+  }
+  const value = BigInt(amount);
+  if (value <= 0n) throw invalidParams('Amount must be greater than zero', 'amount');
+  return value;
+}
+
+/**
+ * Check that a memo fits the transfer's memo field
+ */
+export function validateMemo(memo?: string): void {
+  if (memo === undefined || memo === '') return;
+  if (typeof memo !== 'string') throw invalidParams('Memo must be a string', 'memo');
+
+  const length = new TextEncoder().encode(memo).length;
+  if (length > MAX_MEMO_BYTES) {
+    throw invalidParams(`Memo is ${length} bytes, the limit is ${MAX_MEMO_BYTES}`, 'memo');
+  }
+}
+
+/**
+ * Check that a recipient is a standard or contract principal
+ */
+export function validateRecipient(recipient: string): void {
+  const [address, contractName, ...rest] = String(recipient).split('.');
+  if (rest.length > 0 || contractName === '' || !validateStacksAddress(address)) {
+    throw invalidParams(`Invalid recipient: ${recipient}`, 'recipient');
+  }
+}
+
+/**
+ * STX an account can spend: unlocked balance less pending outgoing transfers
+ */
+export async function fetchSpendableBalance(
+  address: string,
+  options: StxBalanceOptions
+): Promise<bigint> {
+  const fetchFn = options.fetch || fetch;
+  const response = await fetchFn(`${options.apiUrl}/extended/v1/address/${address}/stx`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch balance for ${address}: ${response.status}`);
+  }
+
+  const body = (await response.json()) as {
+    balance: string;
+    locked: string;
+    estimated_balance?: string;
+  };
+  // estimated_balance accounts for mempool transactions where the API reports it
+  const balance = BigInt(body.estimated_balance ?? body.balance);
+  const spendable = balance - BigInt(body.locked || '0');
+  return spendable > 0n ? spendable : 0n;
+}
+
+/**
+ * Build an unsigned STX transfer with an exact-amount post-condition and an estimated fee
+ */
+export async function buildStxTransfer(options: StxTransferOptions): Promise<StacksTransactionWire> {
+  const client = {
+    ...(options.apiUrl && { baseUrl: options.apiUrl }),
+    ...(options.fetch && { fetch: options.fetch }),
+  };
+
+  const transaction = await makeUnsignedSTXTokenTransfer({
+    recipient: options.recipient,
+    amount: options.amount,
+    memo: options.memo,
+    publicKey: options.publicKey,
+    nonce: options.nonce,
+    fee: 0,
+    network: options.network,
+    client,
+  });
+
+  // Attached before estimating so the fee covers the post-condition bytes
+  const postCondition = Pc.principal(options.sender).willSendEq(options.amount).ustx();
+  transaction.postConditions.values.push(postConditionToWire(postCondition));
+
+  const fee = await fetchFeeEstimate({ transaction, network: options.network, client });
+  transaction.setFee(fee);
+  return transaction;
+}
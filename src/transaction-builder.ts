@@ -0,0 +1,281 @@
+import {
+  ClarityValue,
+  PostConditionMode,
+  estimateTransactionByteLength,
+  fetchFeeEstimateTransaction,
+  fetchFeeEstimateTransfer,
+  fetchNonce,
+  makeUnsignedContractCall,
+  publicKeyToAddress,
+  serializePayload,
+  StacksTransactionWire,
+} from '@stacks/transactions';
+import { getNetworkConfig, getTrustVaultConfig, CONTRACT_FUNCTIONS } from './config';
+import {
+  registerIdentityArgs,
+  submitProofArgs,
+  verifyProofArgs,
+  issueCredentialArgs,
+  revokeCredentialArgs,
+  updateReputationArgs,
+  initiateRecoveryArgs,
+  setPauseGuardianArgs,
+  setAdminArgs,
+} from './encoders';
+import { NonceManager } from './nonce-manager';
+import {
+  validateRegisterIdentity,
+  validateSubmitProof,
+  validateIssueCredential,
+  validateSetAdmin,
+} from './validation';
+import type {
+  StacksNetwork,
+  RegisterIdentityParams,
+  SubmitProofParams,
+  VerifyProofParams,
+  IssueCredentialParams,
+  RevokeCredentialParams,
+  UpdateReputationParams,
+  InitiateRecoveryParams,
+  SetPauseGuardianParams,
+  SetAdminParams,
+} from './types/walletconnect.types';
+
+/**
+ * Unsigned transaction builder for TrustVault contract calls
+ *
+ * Produces hex-encoded contract calls with nonce and fee filled in, ready to
+ * be signed by an external wallet (e.g. over stx_signTransaction). Arguments
+ * are checked against the contract validators before anything is fetched.
+ */
+
+export type FeeTier = 'low' | 'medium' | 'high';
+
+const FEE_TIER_INDEX: Record<FeeTier, number> = { low: 0, medium: 1, high: 2 };
+
+export interface TransactionBuilderOptions {
+  network?: StacksNetwork;
+  apiUrl?: string;
+  contractAddress?: string;
+  contractName?: string;
+  feeTier?: FeeTier;
+  maxFee?: number | bigint;
+  fetch?: typeof fetch;
+  // Take nonces from here instead of fetching them, skipping those the wallet has reserved;
+  // unsigned builds only peek, since nothing tells the manager if they are never broadcast
+  nonceManager?: NonceManager;
+}
+
+export interface BuildTransactionOptions {
+  publicKey: string; // compressed public key of the sender
+  nonce?: number | bigint;
+  fee?: number | bigint;
+  feeTier?: FeeTier;
+  maxFee?: number | bigint;
+}
+
+export interface UnsignedContractCall {
+  transaction: string; // hex-encoded unsigned transaction
+  functionName: string;
+  sender: string;
+  nonce: bigint;
+  fee: bigint;
+}
+
+export class TrustVaultTransactionBuilder {
+  readonly network: StacksNetwork;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  private client: { baseUrl: string; fetch?: typeof fetch };
+  private feeTier: FeeTier;
+  private maxFee?: bigint;
+  private nonceManager?: NonceManager;
+
+  constructor(options: TransactionBuilderOptions = {}) {
+    this.network = options.network || (getTrustVaultConfig().network as StacksNetwork);
+    const config = getNetworkConfig(this.network);
+
+    this.client = { baseUrl: options.apiUrl || config.stacksApi, fetch: options.fetch };
+    this.feeTier = options.feeTier || 'medium';
+    this.maxFee = options.maxFee === undefined ? undefined : BigInt(options.maxFee);
+    this.nonceManager = options.nonceManager;
+
+    // Accept either a deployer address or a fully qualified contract identifier
+    const [contractAddress, contractName] = (options.contractAddress || config.deployer).split('.');
+    this.contractAddress = contractAddress;
+    this.contractName = options.contractName || contractName || config.contractName;
+  }
+
+  async registerIdentity(
+    params: RegisterIdentityParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    validateRegisterIdentity(params, this.senderAddress(options.publicKey));
+    return this.build(CONTRACT_FUNCTIONS.registerIdentity, registerIdentityArgs(params), options);
+  }
+
+  async submitProof(
+    params: SubmitProofParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    validateSubmitProof(params);
+    return this.build(CONTRACT_FUNCTIONS.submitProof, submitProofArgs(params), options);
+  }
+
+  async verifyProof(
+    params: VerifyProofParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.verifyProof, verifyProofArgs(params), options);
+  }
+
+  async issueCredential(
+    params: IssueCredentialParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    validateIssueCredential(params, await this.getBlockHeight());
+    return this.build(CONTRACT_FUNCTIONS.issueCredential, issueCredentialArgs(params), options);
+  }
+
+  async revokeCredential(
+    params: RevokeCredentialParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.revokeCredential, revokeCredentialArgs(params), options);
+  }
+
+  async updateReputation(
+    params: UpdateReputationParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.updateReputation, updateReputationArgs(params), options);
+  }
+
+  async initiateRecovery(
+    params: InitiateRecoveryParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.initiateRecovery, initiateRecoveryArgs(params), options);
+  }
+
+  async pauseContract(options: BuildTransactionOptions): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.pauseContract, [], options);
+  }
+
+  async unpauseContract(options: BuildTransactionOptions): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.unpauseContract, [], options);
+  }
+
+  async setPauseGuardian(
+    params: SetPauseGuardianParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    return this.build(CONTRACT_FUNCTIONS.setPauseGuardian, setPauseGuardianArgs(params), options);
+  }
+
+  async setAdmin(
+    params: SetAdminParams,
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    validateSetAdmin(params, this.senderAddress(options.publicKey));
+    return this.build(CONTRACT_FUNCTIONS.setAdmin, setAdminArgs(params), options);
+  }
+
+  /**
+   * Build an unsigned call to any trust-vault public function
+   */
+  async build(
+    functionName: string,
+    functionArgs: ClarityValue[],
+    options: BuildTransactionOptions
+  ): Promise<UnsignedContractCall> {
+    const sender = this.senderAddress(options.publicKey);
+    const nonce =
+      options.nonce !== undefined
+        ? BigInt(options.nonce)
+        : this.nonceManager
+          ? await this.nonceManager.peek(sender)
+          : await fetchNonce({ address: sender, network: this.network, client: this.client });
+
+    // trust-vault functions never move assets, so an empty post-condition
+    // list in Deny mode guarantees the call cannot transfer any tokens
+    const transaction = await makeUnsignedContractCall({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      publicKey: options.publicKey,
+      nonce,
+      fee: 0,
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: [],
+      network: this.network,
+      client: this.client,
+    });
+
+    const fee =
+      options.fee === undefined
+        ? await this.estimateFee(transaction, options.feeTier, options.maxFee)
+        : BigInt(options.fee);
+    transaction.setFee(fee);
+
+    return {
+      transaction: transaction.serialize(),
+      functionName,
+      sender,
+      nonce,
+      fee,
+    };
+  }
+
+  /**
+   * Fetch the current Stacks block height from the node
+   */
+  async getBlockHeight(): Promise<number> {
+    const fetchFn = this.client.fetch || fetch;
+    const response = await fetchFn(`${this.client.baseUrl}/v2/info`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch node info: ${response.status}`);
+    }
+
+    const info = (await response.json()) as { stacks_tip_height: number };
+    return info.stacks_tip_height;
+  }
+
+  /**
+   * Estimate the fee of a transaction for a tier, capped at the maximum fee
+   */
+  async estimateFee(
+    transaction: StacksTransactionWire,
+    tier: FeeTier = this.feeTier,
+    maxFee: number | bigint | undefined = this.maxFee
+  ): Promise<bigint> {
+    let fee: bigint;
+    try {
+      const estimations = await fetchFeeEstimateTransaction({
+        payload: serializePayload(transaction.payload),
+        estimatedLength: estimateTransactionByteLength(transaction),
+        network: this.network,
+        client: this.client,
+      });
+      fee = BigInt(estimations[FEE_TIER_INDEX[tier]].fee);
+    } catch (error) {
+      // Fall back to the flat per-byte rate when the node has no estimate yet
+      // (NoEstimateAvailableError is not exported by @stacks/transactions)
+      if (!(error instanceof Error) || error.name !== 'NoEstimateAvailableError') throw error;
+      fee = await fetchFeeEstimateTransfer({
+        transaction,
+        network: this.network,
+        client: this.client,
+      });
+    }
+
+    if (maxFee !== undefined && fee > BigInt(maxFee)) return BigInt(maxFee);
+    return fee;
+  }
+
+  private senderAddress(publicKey: string): string {
+    return publicKeyToAddress(publicKey, this.network);
+  }
+}
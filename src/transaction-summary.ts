@@ -0,0 +1,154 @@
+import {
+  addressToString,
+  cvToString,
+  deserializeTransaction,
+  PayloadType,
+  PostCondition,
+  PostConditionMode,
+  StacksTransactionWire,
+  wireToPostCondition,
+} from '@stacks/transactions';
+import { CONTRACT_FUNCTIONS, TRUST_VAULT_CONFIG } from './config';
+import { decodeFunctionArgs, decodePostConditions, parseContractId } from './contract-call';
+import type { CallContractParams } from './types/walletconnect.types';
+
+/**
+ * Human-readable summaries of transactions before they are signed
+ *
+ * Used by the approval prompt and the request audit log. Calls to
+ * trust-vault admin functions and allow-mode transactions carry warnings
+ * the wallet UI should show prominently.
+ */
+
+export interface TransactionSummary {
+  type: string; // payload type, e.g. ContractCall or TokenTransfer
+  contract?: string;
+  functionName?: string;
+  args?: string[]; // Clarity representation of each argument
+  recipient?: string;
+  amount?: string; // uSTX
+  memo?: string;
+  fee?: string; // uSTX; unknown for calls the wallet has not built yet
+  nonce?: string;
+  postConditionMode: 'allow' | 'deny';
+  postConditions: string[];
+  warnings: string[];
+}
+
+// Deployed trust-vault contracts, whose admin functions are flagged
+const TRUST_VAULT_CONTRACTS: string[] = [
+  TRUST_VAULT_CONFIG.mainnet.contractAddress,
+  TRUST_VAULT_CONFIG.testnet.contractAddress,
+];
+
+// trust-vault functions that change who controls the contract or its data
+export const TRUST_VAULT_ADMIN_FUNCTIONS: string[] = [
+  CONTRACT_FUNCTIONS.setAdmin,
+  CONTRACT_FUNCTIONS.pauseContract,
+  CONTRACT_FUNCTIONS.unpauseContract,
+  CONTRACT_FUNCTIONS.setPauseGuardian,
+  CONTRACT_FUNCTIONS.updateReputation,
+];
+
+const COMPARATORS: Record<string, string> = {
+  eq: 'exactly',
+  gt: 'more than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+};
+
+/**
+ * Summarize a signed or unsigned transaction, given as wire object or hex
+ */
+export function summarizeTransaction(input: StacksTransactionWire | string): TransactionSummary {
+  const transaction =
+    typeof input === 'string' ? deserializeTransaction(input.replace(/^0x/, '')) : input;
+  const { payload } = transaction;
+
+  const summary: TransactionSummary = {
+    type: PayloadType[payload.payloadType],
+    fee: String(transaction.auth.spendingCondition.fee),
+    nonce: String(transaction.auth.spendingCondition.nonce),
+    postConditionMode: transaction.postConditionMode === PostConditionMode.Allow ? 'allow' : 'deny',
+    postConditions: transaction.postConditions.values.map((wire) =>
+      describePostCondition(wireToPostCondition(wire))
+    ),
+    warnings: [],
+  };
+
+  if (payload.payloadType === PayloadType.ContractCall) {
+    const contractAddress = addressToString(payload.contractAddress);
+    summary.contract = `${contractAddress}.${payload.contractName.content}`;
+    summary.functionName = payload.functionName.content;
+    summary.args = payload.functionArgs.map((arg) => cvToString(arg));
+  } else if (payload.payloadType === PayloadType.TokenTransfer) {
+    summary.recipient = cvToString(payload.recipient);
+    summary.amount = String(payload.amount);
+    if (payload.memo.content) summary.memo = payload.memo.content;
+  }
+
+  return withWarnings(summary);
+}
+
+/**
+ * Summarize the parameters of an stx_callContract request
+ */
+export function summarizeContractCall(params: CallContractParams): TransactionSummary {
+  const contract = parseContractId(params.contract);
+  const args = decodeFunctionArgs(params.functionArgs || []);
+
+  return withWarnings({
+    type: PayloadType[PayloadType.ContractCall],
+    contract: `${contract.contractAddress}.${contract.contractName}`,
+    functionName: params.functionName,
+    args: args.map((arg) => cvToString(arg)),
+    postConditionMode: params.postConditionMode === 'allow' ? 'allow' : 'deny',
+    postConditions: decodePostConditions(params.postConditions).map(describePostCondition),
+    warnings: [],
+  });
+}
+
+/**
+ * One-line description of a post-condition
+ */
+export function describePostCondition(postCondition: PostCondition): string {
+  const { address } = postCondition;
+
+  switch (postCondition.type) {
+    case 'stx-postcondition': {
+      const amount = `${COMPARATORS[postCondition.condition]} ${postCondition.amount}`;
+      return `${address} sends ${amount} uSTX`;
+    }
+    case 'ft-postcondition': {
+      const amount = `${COMPARATORS[postCondition.condition]} ${postCondition.amount}`;
+      return `${address} sends ${amount} ${postCondition.asset}`;
+    }
+    case 'nft-postcondition': {
+      const verb = postCondition.condition === 'sent' ? 'sends' : 'keeps';
+      return `${address} ${verb} ${postCondition.asset} ${cvToString(postCondition.assetId)}`;
+    }
+  }
+}
+
+// Adds the warnings that follow from the decoded fields
+function withWarnings(summary: TransactionSummary): TransactionSummary {
+  const warnings: string[] = [];
+
+  // Compared by full id: any deployer can publish a contract named trust-vault
+  if (
+    summary.contract &&
+    TRUST_VAULT_CONTRACTS.includes(summary.contract) &&
+    summary.functionName &&
+    TRUST_VAULT_ADMIN_FUNCTIONS.includes(summary.functionName)
+  ) {
+    warnings.push(`Calls the trust-vault admin function ${summary.functionName}`);
+  }
+  if (summary.postConditionMode === 'allow') {
+    warnings.push(
+      'Post-condition mode is allow: assets not covered by a post-condition can be moved'
+    );
+  }
+
+  return { ...summary, warnings };
+}
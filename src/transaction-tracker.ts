@@ -0,0 +1,175 @@
+import { ClarityValue } from '@stacks/transactions';
+import { getStacksApiUrl } from './config';
+import { ApiTransactionResult, decodeTransactionResult } from './errors';
+import type { StacksNetwork } from './types/walletconnect.types';
+
+/**
+ * Transaction lifecycle tracking against the Stacks API
+ *
+ * Polls /extended/v1/tx/{txid} until a broadcast transaction is anchored with
+ * enough confirmations, then decodes its result. Contract errors surface as
+ * TrustVaultError or ContractAbortError, exactly like read-only calls.
+ */
+
+export type TransactionStatus = 'pending' | 'microblock' | 'anchored' | 'dropped' | 'replaced';
+
+export interface TransactionStatusUpdate {
+  txid: string;
+  status: TransactionStatus;
+  txStatus: string; // raw tx_status from the API
+  blockHeight?: number;
+  confirmations: number;
+}
+
+export interface WaitForTransactionOptions {
+  confirmations?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  apiUrl?: string; // defaults to Hiro's API for the network
+  network?: StacksNetwork; // defaults to mainnet
+  fetch?: typeof fetch;
+  onStatus?: (update: TransactionStatusUpdate) => void;
+}
+
+export interface ConfirmedTransaction {
+  txid: string;
+  blockHeight: number;
+  confirmations: number;
+  result: ClarityValue;
+}
+
+// Transaction fields used by the tracker, on top of the result fields
+export interface ApiTransaction extends ApiTransactionResult {
+  block_height?: number;
+  index_block_hash?: string;
+  is_unanchored?: boolean;
+  canonical?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const REPLACED_STATUSES = ['dropped_replace_by_fee', 'dropped_replace_across_fork'];
+
+export class TransactionDroppedError extends Error {
+  readonly txid: string;
+  readonly status: 'dropped' | 'replaced';
+  readonly txStatus: string;
+
+  constructor(txid: string, status: 'dropped' | 'replaced', txStatus: string) {
+    super(`Transaction ${txid} was ${status} (${txStatus})`);
+    this.name = 'TransactionDroppedError';
+    this.txid = txid;
+    this.status = status;
+    this.txStatus = txStatus;
+  }
+}
+
+export class TransactionTimeoutError extends Error {
+  readonly txid: string;
+  readonly lastStatus?: TransactionStatusUpdate;
+
+  constructor(txid: string, timeoutMs: number, lastStatus?: TransactionStatusUpdate) {
+    super(`Timed out after ${timeoutMs}ms waiting for transaction ${txid}`);
+    this.name = 'TransactionTimeoutError';
+    this.txid = txid;
+    this.lastStatus = lastStatus;
+  }
+}
+
+/**
+ * Map an API transaction to its lifecycle status
+ */
+export function getTransactionStatus(tx: ApiTransaction): TransactionStatus {
+  if (REPLACED_STATUSES.includes(tx.tx_status)) return 'replaced';
+  if (tx.tx_status.startsWith('dropped_')) return 'dropped';
+  if (tx.tx_status === 'pending' || tx.block_height === undefined) return 'pending';
+  if (tx.canonical === false) return 'pending'; // mined in an orphaned fork
+  return tx.is_unanchored ? 'microblock' : 'anchored';
+}
+
+/**
+ * Wait until a transaction is anchored with the requested confirmations and
+ * return its decoded result
+ */
+export async function waitForTransaction(
+  txid: string,
+  options: WaitForTransactionOptions = {}
+): Promise<ConfirmedTransaction> {
+  const apiUrl = options.apiUrl || getStacksApiUrl(options.network || 'mainnet');
+  const fetchFn = options.fetch || fetch;
+  const confirmations = options.confirmations ?? 1;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const id = txid.startsWith('0x') ? txid : `0x${txid}`;
+  const deadline = Date.now() + timeoutMs;
+
+  let lastStatus: TransactionStatusUpdate | undefined;
+
+  while (true) {
+    const tx = await fetchTransaction(fetchFn, apiUrl, id);
+    const status: TransactionStatus = tx ? getTransactionStatus(tx) : 'pending';
+
+    let current = 0;
+    if (tx && status === 'anchored') {
+      const tipHeight = await fetchTipHeight(fetchFn, apiUrl);
+      current = Math.max(tipHeight - tx.block_height! + 1, 0);
+    }
+
+    const update: TransactionStatusUpdate = {
+      txid: id,
+      status,
+      txStatus: tx ? tx.tx_status : 'pending',
+      blockHeight: tx?.block_height,
+      confirmations: current,
+    };
+    if (lastStatus?.status !== update.status || lastStatus.confirmations !== current) {
+      options.onStatus?.(update);
+    }
+    lastStatus = update;
+
+    if (status === 'dropped' || status === 'replaced') {
+      throw new TransactionDroppedError(id, status, update.txStatus);
+    }
+
+    if (tx && status === 'anchored' && current >= confirmations) {
+      return {
+        txid: id,
+        blockHeight: tx.block_height!,
+        confirmations: current,
+        result: decodeTransactionResult(tx),
+      };
+    }
+
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new TransactionTimeoutError(id, timeoutMs, lastStatus);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+// Returns null while the API has not indexed the transaction yet
+export async function fetchTransaction(
+  fetchFn: typeof fetch,
+  apiUrl: string,
+  txid: string
+): Promise<ApiTransaction | null> {
+  const response = await fetchFn(`${apiUrl}/extended/v1/tx/${txid}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transaction ${txid}: ${response.status}`);
+  }
+  return (await response.json()) as ApiTransaction;
+}
+
+/**
+ * Fetch the current Stacks block height from the API
+ */
+export async function fetchTipHeight(fetchFn: typeof fetch, apiUrl: string): Promise<number> {
+  const response = await fetchFn(`${apiUrl}/v2/info`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch node info: ${response.status}`);
+  }
+  const info = (await response.json()) as { stacks_tip_height: number };
+  return info.stacks_tip_height;
+}
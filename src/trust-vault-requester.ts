@@ -0,0 +1,304 @@
+import { ClarityValue, cvToHex } from '@stacks/transactions';
+import { getNetworkConfig, getTrustVaultConfig, CONTRACT_FUNCTIONS } from './config';
+import { WalletRequestError } from './errors';
+import {
+  waitForTransaction,
+  fetchTipHeight,
+  ConfirmedTransaction,
+  WaitForTransactionOptions,
+} from './transaction-tracker';
+import {
+  validateIssueCredential,
+  validateRegisterIdentity,
+  validateSetAdmin,
+  validateSubmitProof,
+} from './validation';
+import {
+  registerIdentityArgs,
+  submitProofArgs,
+  verifyProofArgs,
+  issueCredentialArgs,
+  revokeCredentialArgs,
+  updateReputationArgs,
+  initiateRecoveryArgs,
+  setPauseGuardianArgs,
+  setAdminArgs,
+} from './encoders';
+import {
+  getSessionChain,
+  type CallContractParams,
+  type CallContractResponse,
+  type StacksMethod,
+  type StacksNetwork,
+  type RegisterIdentityParams,
+  type SubmitProofParams,
+  type VerifyProofParams,
+  type IssueCredentialParams,
+  type RevokeCredentialParams,
+  type UpdateReputationParams,
+  type InitiateRecoveryParams,
+  type SetPauseGuardianParams,
+  type SetAdminParams,
+} from './types/walletconnect.types';
+
+/**
+ * dApp-side TrustVault client that signs through the user's wallet
+ *
+ * Contract calls are sent as stx_callContract requests over a WalletConnect
+ * session; the wallet builds, signs and broadcasts them and answers with the
+ * txid, so the dApp never handles keys. A `@walletconnect/sign-client`
+ * instance works as the client:
+ *
+ *   const { uri, approval } = await TrustVaultRequester.connect(signClient, { network });
+ *   // show `uri` as a QR code, then
+ *   const trustVault = await approval();
+ *   const { txid } = await trustVault.registerIdentity({ identityHash });
+ */
+
+// Sends JSON-RPC requests to the wallet of a session, as SignClient.request does
+export interface WalletRequestTransport {
+  request<T>(args: {
+    topic: string;
+    chainId: string;
+    request: { method: string; params: unknown };
+  }): Promise<T>;
+}
+
+export interface ConnectedSession {
+  topic: string;
+  namespaces: Record<string, { accounts: string[] }>;
+}
+
+// Proposes sessions to wallets, as SignClient.connect does
+export interface WalletConnectClient extends WalletRequestTransport {
+  connect(params: {
+    requiredNamespaces: Record<string, { chains: string[]; methods: string[]; events: string[] }>;
+  }): Promise<{ uri?: string; approval: () => Promise<ConnectedSession> }>;
+}
+
+export interface TrustVaultRequesterOptions {
+  network?: StacksNetwork;
+  contractAddress?: string;
+  contractName?: string;
+  // Stacks API polled by waitForTransaction, defaults to Hiro's API for the network
+  apiUrl?: string;
+  // Used for Stacks API requests, defaults to the global fetch
+  fetch?: typeof fetch;
+}
+
+// Methods the requester asks the wallet to grant
+export const REQUESTER_METHODS: StacksMethod[] = ['stx_getAddresses', 'stx_callContract'];
+
+export class TrustVaultRequester {
+  readonly topic: string;
+  // Session account the wallet signs with
+  readonly address: string;
+  readonly network: StacksNetwork;
+  readonly contract: string;
+  private transport: WalletRequestTransport;
+  private apiUrl: string;
+  private fetchFn: typeof fetch;
+
+  constructor(
+    transport: WalletRequestTransport,
+    session: { topic: string; address: string },
+    options: TrustVaultRequesterOptions = {}
+  ) {
+    this.transport = transport;
+    this.topic = session.topic;
+    this.address = session.address;
+    this.network = options.network || (getTrustVaultConfig().network as StacksNetwork);
+    const config = getNetworkConfig(this.network);
+    this.apiUrl = options.apiUrl || config.stacksApi;
+    this.fetchFn = options.fetch || fetch;
+
+    // Accept either a deployer address or a fully qualified contract identifier
+    const [contractAddress, contractName] = (options.contractAddress || config.deployer).split('.');
+    const name = options.contractName || contractName || config.contractName;
+    this.contract = `${contractAddress}.${name}`;
+  }
+
+  /**
+   * Propose a session to a wallet; `approval` resolves once the wallet accepts it
+   */
+  static async connect(
+    client: WalletConnectClient,
+    options: TrustVaultRequesterOptions = {}
+  ): Promise<{ uri?: string; approval: () => Promise<TrustVaultRequester> }> {
+    const network = options.network || (getTrustVaultConfig().network as StacksNetwork);
+    const chainId = getSessionChain(network);
+
+    const { uri, approval } = await client.connect({
+      requiredNamespaces: {
+        stacks: { chains: [chainId], methods: REQUESTER_METHODS, events: [] },
+      },
+    });
+
+    return {
+      uri,
+      approval: async () => {
+        const session = await approval();
+        const account = session.namespaces.stacks?.accounts.find((caip) =>
+          caip.startsWith(`${chainId}:`)
+        );
+        if (!account) throw new Error(`The wallet approved no account on ${chainId}`);
+
+        const address = account.slice(chainId.length + 1);
+        return new TrustVaultRequester(client, { topic: session.topic, address }, options);
+      },
+    };
+  }
+
+  /**
+   * Addresses the wallet exposes to this session
+   */
+  async getAddresses(): Promise<string[]> {
+    const { addresses } = await this.send<{ addresses: Array<{ address: string }> }>(
+      'stx_getAddresses',
+      {}
+    );
+    return addresses.map(({ address }) => address);
+  }
+
+  /**
+   * Register a self-sovereign identity for the session account
+   */
+  async registerIdentity(params: RegisterIdentityParams): Promise<CallContractResponse> {
+    validateRegisterIdentity(params, this.address);
+    return this.callContract(CONTRACT_FUNCTIONS.registerIdentity, registerIdentityArgs(params));
+  }
+
+  /**
+   * Submit a zero-knowledge proof for verification
+   */
+  async submitProof(params: SubmitProofParams): Promise<CallContractResponse> {
+    validateSubmitProof(params);
+    return this.callContract(CONTRACT_FUNCTIONS.submitProof, submitProofArgs(params));
+  }
+
+  /**
+   * Verify a submitted proof (admin only)
+   */
+  async verifyProof(params: VerifyProofParams): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.verifyProof, verifyProofArgs(params));
+  }
+
+  /**
+   * Issue a verifiable credential to a registered identity
+   */
+  async issueCredential(params: IssueCredentialParams): Promise<CallContractResponse> {
+    validateIssueCredential(params, await fetchTipHeight(this.fetchFn, this.apiUrl));
+    return this.callContract(CONTRACT_FUNCTIONS.issueCredential, issueCredentialArgs(params));
+  }
+
+  /**
+   * Revoke a credential issued by the session account
+   */
+  async revokeCredential(params: RevokeCredentialParams): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.revokeCredential, revokeCredentialArgs(params));
+  }
+
+  /**
+   * Change the reputation score of an identity (admin only)
+   */
+  async updateReputation(params: UpdateReputationParams): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.updateReputation, updateReputationArgs(params));
+  }
+
+  /**
+   * Replace an identity hash from its designated recovery address
+   */
+  async initiateRecovery(params: InitiateRecoveryParams): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.initiateRecovery, initiateRecoveryArgs(params));
+  }
+
+  /**
+   * Pause the contract (admin or pause guardian)
+   */
+  async pauseContract(): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.pauseContract, []);
+  }
+
+  /**
+   * Unpause the contract (admin only)
+   */
+  async unpauseContract(): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.unpauseContract, []);
+  }
+
+  /**
+   * Set or clear the pause guardian (admin only)
+   */
+  async setPauseGuardian(params: SetPauseGuardianParams): Promise<CallContractResponse> {
+    return this.callContract(CONTRACT_FUNCTIONS.setPauseGuardian, setPauseGuardianArgs(params));
+  }
+
+  /**
+   * Transfer administrative privileges (admin only)
+   */
+  async setAdmin(params: SetAdminParams): Promise<CallContractResponse> {
+    validateSetAdmin(params, this.address);
+    return this.callContract(CONTRACT_FUNCTIONS.setAdmin, setAdminArgs(params));
+  }
+
+  /**
+   * Wait for a broadcast transaction to confirm and return its decoded result
+   */
+  async waitForTransaction(
+    txid: string,
+    options: WaitForTransactionOptions = {}
+  ): Promise<ConfirmedTransaction> {
+    return waitForTransaction(txid, { apiUrl: this.apiUrl, fetch: this.fetchFn, ...options });
+  }
+
+  /**
+   * Ask the wallet to sign and broadcast a call to a trust-vault public function
+   */
+  private async callContract(
+    functionName: string,
+    functionArgs: ClarityValue[]
+  ): Promise<CallContractResponse> {
+    const params: CallContractParams = {
+      contract: this.contract,
+      functionName,
+      functionArgs: functionArgs.map((arg) => cvToHex(arg)),
+      sender: this.address,
+    };
+    return this.send<CallContractResponse>('stx_callContract', params);
+  }
+
+  private async send<T>(method: StacksMethod, params: unknown): Promise<T> {
+    try {
+      return await this.transport.request<T>({
+        topic: this.topic,
+        chainId: getSessionChain(this.network),
+        request: { method, params },
+      });
+    } catch (error) {
+      throw toWalletRequestError(error);
+    }
+  }
+}
+
+// Wallets answer with plain JSON-RPC error objects; keep their code and data for callers
+function toWalletRequestError(error: unknown): unknown {
+  if (error instanceof Error || typeof error !== 'object' || error === null) return error;
+
+  const { code, message, data } = error as { code?: unknown; message?: unknown; data?: unknown };
+  if (typeof code !== 'number') return error;
+  return new WalletRequestError({
+    code,
+    message: typeof message === 'string' ? message : '',
+    data: parseErrorData(data),
+  });
+}
+
+// Wallets built on WalletKit send structured error data as a JSON string
+function parseErrorData(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
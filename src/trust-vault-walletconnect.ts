@@ -1,265 +1,259 @@
-import { 
-  makeContractCall,
-  broadcastTransaction,
-  AnchorMode,
-  PostConditionMode,
-  stringUtf8CV,
-  uintCV,
-  principalCV,
-  listCV,
-  bufferCV,
-} from '@stacks/transactions';
-import { StacksTestnet, StacksMainnet } from '@stacks/network';
-import { StacksWalletConnect } from '../src/walletconnect';
+import { deserializeTransaction } from '@stacks/transactions';
+import { StacksWalletConnect } from './walletconnect';
+import { getStacksApiUrl, getTrustVaultConfig } from './config';
+import {
+  BuildTransactionOptions,
+  TrustVaultTransactionBuilder,
+  UnsignedContractCall,
+} from './transaction-builder';
+import { NonceManager } from './nonce-manager';
+import { LocalKeySigner } from './signer';
+import { Keystore } from './keystore';
+import { SessionPolicy } from './session-policy';
+import {
+  waitForTransaction,
+  ConfirmedTransaction,
+  WaitForTransactionOptions,
+} from './transaction-tracker';
+import {
+  getSessionChain,
+  type StacksNetwork,
+  type TrustVaultConfig,
+  type RegisterIdentityParams,
+  type SubmitProofParams,
+  type VerifyProofParams,
+  type IssueCredentialParams,
+  type RevokeCredentialParams,
+  type UpdateReputationParams,
+  type InitiateRecoveryParams,
+  type SetPauseGuardianParams,
+  type SetAdminParams,
+} from './types/walletconnect.types';
 
 /**
  * Integration helper for Trust Vault contract with WalletConnect
  */
 
 export class TrustVaultWalletConnect extends StacksWalletConnect {
-  private network: StacksMainnet | StacksTestnet;
-  private contractAddress: string;
-  private contractName: string;
+  // Builds unsigned transactions for external signers
+  readonly transactions: TrustVaultTransactionBuilder;
+  private network: StacksNetwork;
+  private apiUrl: string;
+
+  constructor(config: TrustVaultConfig = {}) {
+    // API and contract defaults follow the configured network, not STACKS_NETWORK
+    const network = config.network || (getTrustVaultConfig().network as StacksNetwork);
+    const apiUrl = getStacksApiUrl(network);
+    // Requests use the API of their session's network; devnet accounts look like
+    // testnet ones, so only a devnet wallet pins its local node
+    const sharedApiUrl = network === 'devnet' ? apiUrl : undefined;
 
-  constructor(
-    config: {
-      projectId?: string;
-      network?: 'mainnet' | 'testnet';
-      contractAddress?: string;
-      contractName?: string;
-    } = {}
-  ) {
     super({
       projectId: config.projectId,
       metadata: {
         name: 'Trust Vault',
-        description: 'Decentralized trust and escrow management on Stacks blockchain',
+        description: 'Self-sovereign identity and verifiable credentials on Stacks blockchain',
         url: 'https://trustvault.stacks.io',
         icons: ['https://trustvault.stacks.io/icon.png'],
       },
+      nonceManager: config.nonceManager || new NonceManager({ apiUrl: sharedApiUrl }),
+      signer: config.signer,
+      apiUrl: sharedApiUrl,
+      // A keystore supplies the accounts and a signer for each of them
+      accounts: config.accounts || config.keystore,
+      selectAccounts: config.selectAccounts,
+      // Sessions are granted the configured network's chain only
+      sessionPolicy:
+        config.sessionPolicy || new SessionPolicy({ chains: [getSessionChain(network)] }),
+      approvals: config.approvals,
+      sessionStore: config.sessionStore,
+      logger: config.logger,
+      limits: config.limits,
     });
 
-    this.network = config.network === 'testnet' 
-      ? new StacksTestnet() 
-      : new StacksMainnet();
-    
-    this.contractAddress = config.contractAddress || 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE';
-    this.contractName = config.contractName || 'trust-vault';
+    this.network = network;
+    this.apiUrl = apiUrl;
+
+    this.transactions = new TrustVaultTransactionBuilder({
+      network: this.network,
+      apiUrl: this.apiUrl,
+      contractAddress: config.contractAddress,
+      contractName: config.contractName,
+      nonceManager: this.nonces,
+    });
   }
 
   /**
-   * Create a trust using WalletConnect
+   * Register a self-sovereign identity for the sender
    */
-  async createTrust(
-    senderAddress: string,
-    beneficiary: string,
-    amount: number,
-    unlockHeight: number,
-    description: string,
+  async registerIdentity(
+    params: RegisterIdentityParams,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'create-trust',
-      functionArgs: [
-        principalCV(beneficiary),
-        uintCV(amount),
-        uintCV(unlockHeight),
-        stringUtf8CV(description),
-      ],
-      senderKey: privateKey || '', // If using WalletConnect, this will be handled by the wallet
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
-
-    // If privateKey is provided, sign and broadcast directly
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
-    }
-
-    // Otherwise, this should go through WalletConnect session request
-    // The dApp will call stx_callContract method
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+    return this.callContract(
+      (options) => this.transactions.registerIdentity(params, options),
+      privateKey
+    );
   }
 
   /**
-   * Release a trust
+   * Submit a zero-knowledge proof for verification
    */
-  async releaseTrust(
-    senderAddress: string,
-    trustId: number,
+  async submitProof(
+    params: SubmitProofParams,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'release-trust',
-      functionArgs: [uintCV(trustId)],
-      senderKey: privateKey || '',
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
-
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
-    }
+    return this.callContract(
+      (options) => this.transactions.submitProof(params, options),
+      privateKey
+    );
+  }
 
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+  /**
+   * Verify a submitted proof (admin only)
+   */
+  async verifyProof(
+    params: VerifyProofParams,
+    privateKey?: string
+  ): Promise<{ txid: string; transaction: string }> {
+    return this.callContract(
+      (options) => this.transactions.verifyProof(params, options),
+      privateKey
+    );
   }
 
   /**
-   * Revoke a trust
+   * Issue a verifiable credential to a registered identity
    */
-  async revokeTrust(
-    senderAddress: string,
-    trustId: number,
+  async issueCredential(
+    params: IssueCredentialParams,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'revoke-trust',
-      functionArgs: [uintCV(trustId)],
-      senderKey: privateKey || '',
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
+    return this.callContract(
+      (options) => this.transactions.issueCredential(params, options),
+      privateKey
+    );
+  }
 
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
-    }
+  /**
+   * Revoke a credential issued by the sender
+   */
+  async revokeCredential(
+    params: RevokeCredentialParams,
+    privateKey?: string
+  ): Promise<{ txid: string; transaction: string }> {
+    return this.callContract(
+      (options) => this.transactions.revokeCredential(params, options),
+      privateKey
+    );
+  }
 
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+  /**
+   * Change the reputation score of an identity (admin only)
+   */
+  async updateReputation(
+    params: UpdateReputationParams,
+    privateKey?: string
+  ): Promise<{ txid: string; transaction: string }> {
+    return this.callContract(
+      (options) => this.transactions.updateReputation(params, options),
+      privateKey
+    );
   }
 
   /**
-   * Extend trust unlock height
+   * Replace an identity hash from its designated recovery address
    */
-  async extendTrust(
-    senderAddress: string,
-    trustId: number,
-    newUnlockHeight: number,
+  async initiateRecovery(
+    params: InitiateRecoveryParams,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'extend-trust',
-      functionArgs: [uintCV(trustId), uintCV(newUnlockHeight)],
-      senderKey: privateKey || '',
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
+    return this.callContract(
+      (options) => this.transactions.initiateRecovery(params, options),
+      privateKey
+    );
+  }
 
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
-    }
+  /**
+   * Pause the contract (admin or pause guardian)
+   */
+  async pauseContract(privateKey?: string): Promise<{ txid: string; transaction: string }> {
+    return this.callContract((options) => this.transactions.pauseContract(options), privateKey);
+  }
 
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+  /**
+   * Unpause the contract (admin only)
+   */
+  async unpauseContract(privateKey?: string): Promise<{ txid: string; transaction: string }> {
+    return this.callContract((options) => this.transactions.unpauseContract(options), privateKey);
   }
 
   /**
-   * Pause the contract (admin only)
+   * Set or clear the pause guardian (admin only)
    */
-  async pauseContract(
-    senderAddress: string,
+  async setPauseGuardian(
+    params: SetPauseGuardianParams,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'pause',
-      functionArgs: [],
-      senderKey: privateKey || '',
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
+    return this.callContract(
+      (options) => this.transactions.setPauseGuardian(params, options),
+      privateKey
+    );
+  }
 
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
-    }
+  /**
+   * Transfer administrative privileges (admin only)
+   */
+  async setAdmin(
+    params: SetAdminParams,
+    privateKey?: string
+  ): Promise<{ txid: string; transaction: string }> {
+    return this.callContract((options) => this.transactions.setAdmin(params, options), privateKey);
+  }
 
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+  /**
+   * Wait for a broadcast transaction to confirm and return its decoded result
+   */
+  async waitForTransaction(
+    txid: string,
+    options: WaitForTransactionOptions = {}
+  ): Promise<ConfirmedTransaction> {
+    return waitForTransaction(txid, { apiUrl: this.apiUrl, ...options });
   }
 
   /**
-   * Unpause the contract (admin only)
+   * Build, sign and broadcast a call to a trust-vault public function
    */
-  async unpauseContract(
-    senderAddress: string,
+  private async callContract(
+    build: (options: BuildTransactionOptions) => Promise<UnsignedContractCall>,
     privateKey?: string
   ): Promise<{ txid: string; transaction: string }> {
-    const txOptions = {
-      contractAddress: this.contractAddress,
-      contractName: this.contractName,
-      functionName: 'unpause',
-      functionArgs: [],
-      senderKey: privateKey || '',
-      validateWithAbi: true,
-      network: this.network,
-      anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Deny,
-    };
-
-    if (privateKey) {
-      const transaction = await makeContractCall(txOptions);
-      const broadcastResponse = await broadcastTransaction(transaction, this.network);
-      
-      return {
-        txid: broadcastResponse.txid,
-        transaction: transaction.serialize().toString('hex'),
-      };
+    // An explicit key takes precedence over the wallet's first account
+    const signer = privateKey ? new LocalKeySigner(privateKey) : await this.getDefaultSigner();
+    if (!signer) {
+      throw new Error(
+        'No signer configured. Use a keystore or private key, ' +
+          'or sign an unsigned transaction from `transactions`.'
+      );
     }
 
-    throw new Error('WalletConnect signing not yet implemented. Use private key for now.');
+    // The builder's typed methods validate their input before anything is signed
+    return this.sendTransaction(signer, this.network, async (publicKey, nonce) => {
+      const unsigned = await build({ publicKey, nonce });
+      return deserializeTransaction(unsigned.transaction);
+    });
   }
 }
 
 // Example usage
 async function exampleUsage() {
+  // Keys stay encrypted on disk until the user unlocks them
+  const keystore = Keystore.load(process.env.KEYSTORE_PATH || 'keystore.json');
+  await keystore.unlock(process.env.KEYSTORE_PASSWORD || '');
+
   // Initialize with custom configuration
   const trustVault = new TrustVaultWalletConnect({
+    keystore,
     projectId: process.env.WALLETCONNECT_PROJECT_ID,
     network: 'testnet',
     contractAddress: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
@@ -269,26 +263,28 @@ async function exampleUsage() {
   // Initialize WalletConnect
   await trustVault.init();
 
-  // Example: Create a trust
-  // Note: In production, the privateKey parameter should be removed
-  // and signing should happen through WalletConnect
-  const senderAddress = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
-  const beneficiaryAddress = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
-  
+  // Show incoming dApp requests to the user before they run
+  trustVault.approvals.onApprovalRequired((request) => {
+    console.log(`${request.dapp?.name} asks to: ${request.summary.title}`, request.summary.details);
+    // Answer from the UI with trustVault.approvals.approve(request.id) or reject(request.id)
+  });
+
+  // Example: Register an identity, signed with the keystore's first account
+  // Note: dApps should not hold keys at all and sign through the user's
+  // wallet with TrustVaultRequester
   try {
-    const result = await trustVault.createTrust(
-      senderAddress,
-      beneficiaryAddress,
-      1000000000, // 1000 STX (in micro-STX)
-      150000, // unlock at block height 150000
-      'College fund for my son',
-      // privateKey would go here in development, but should use WalletConnect in production
-    );
-    
-    console.log('Trust created!');
+    const result = await trustVault.registerIdentity({
+      identityHash: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+      recoveryAddress: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+    });
+
+    console.log('Identity registered!');
     console.log('Transaction ID:', result.txid);
+
+    const confirmed = await trustVault.waitForTransaction(result.txid);
+    console.log('Confirmed in block', confirmed.blockHeight);
   } catch (error) {
-    console.error('Error creating trust:', error);
+    console.error('Error registering identity:', error);
   }
 }
 
@@ -0,0 +1,54 @@
+/**
+ * TypeScript type definitions for TrustVault contract data
+ *
+ * Clarity values are mapped to plain objects: buffers become hex strings,
+ * principals become address strings, uints become bigints and optionals
+ * become `null` when empty.
+ */
+
+export type TrustVaultNetwork = 'mainnet' | 'testnet' | 'devnet';
+
+// Value stored in the `identities` map
+export interface Identity {
+  hash: string;
+  credentials: string[];
+  reputationScore: bigint;
+  recoveryAddress: string | null;
+  lastUpdated: bigint;
+  lastUpdatedTime: bigint;
+  status: string;
+}
+
+// Key of the `credentials` map
+export interface CredentialId {
+  issuer: string;
+  nonce: bigint;
+}
+
+// Value stored in the `credentials` map
+export interface Credential {
+  subject: string;
+  claimHash: string;
+  expiration: bigint;
+  expirationTime: bigint;
+  revoked: boolean;
+  issuedAt: bigint;
+  metadata: string;
+}
+
+// Value stored in the `zero-knowledge-proofs` map
+export interface ZkProof {
+  prover: string;
+  verified: boolean;
+  timestamp: bigint;
+  timestampUnix: bigint;
+  proofData: string;
+}
+
+// Result of `get-credential-time-info`
+export interface CredentialTimeInfo {
+  issuedAt: bigint;
+  expirationTime: bigint;
+  currentTime: bigint;
+  isExpired: boolean;
+}
@@ -1,3 +1,14 @@
+import type { AccountProvider, AccountSelector } from '../accounts';
+import type { ApprovalQueue } from '../approval-queue';
+import type { Logger } from '../events';
+import type { Keystore } from '../keystore';
+import type { NonceManager } from '../nonce-manager';
+import type { SessionLimiter } from '../session-limits';
+import type { SessionPolicy } from '../session-policy';
+import type { SessionStore } from '../session-store';
+import type { Signer } from '../signer';
+import type { ClarityValueJson, StructuredDataDomainFields } from '../structured-data';
+
 /**
  * TypeScript type definitions for WalletConnect integration with Stacks blockchain
  */
@@ -107,12 +118,15 @@ export interface SignMessageParams {
 }
 
 export interface SignMessageResponse {
-  signature: string;
+  signature: string; // RSV, hex encoded
+  publicKey: string;
 }
 
+// SIP-018: values are hex-serialized Clarity values or their JSON descriptions;
+// the domain may also be given as plain { name, version, chainId } fields
 export interface SignStructuredMessageParams {
-  message: string | object;
-  domain: string | object;
+  message: string | ClarityValueJson;
+  domain: string | ClarityValueJson | StructuredDataDomainFields;
 }
 
 export interface SignStructuredMessageResponse {
@@ -126,6 +140,8 @@ export interface CallContractParams {
   functionArgs: string[];
   sender?: string; // Optional sender address
   network?: StacksNetwork;
+  postConditions?: string[]; // hex-serialized post-conditions
+  postConditionMode?: 'allow' | 'deny'; // defaults to deny
 }
 
 export interface CallContractResponse {
@@ -134,24 +150,49 @@ export interface CallContractResponse {
 }
 
 // Trust Vault specific types
-export interface CreateTrustParams {
-  beneficiary: string;
-  amount: number; // micro-STX
-  unlockHeight: number;
-  description: string;
+// Buffer arguments are hex strings, with or without a 0x prefix
+export interface RegisterIdentityParams {
+  identityHash: string; // (buff 32)
+  recoveryAddress?: string | null;
+}
+
+export interface SubmitProofParams {
+  proofHash: string; // (buff 32)
+  proofData: string; // (buff 1024), at least 64 bytes
+}
+
+export interface VerifyProofParams {
+  proofHash: string;
+}
+
+export interface IssueCredentialParams {
+  subject: string;
+  claimHash: string; // (buff 32)
+  expiration: number | bigint; // block height
+  metadata: string; // (string-utf8 256)
+}
+
+export interface RevokeCredentialParams {
+  issuer: string;
+  nonce: number | bigint;
+}
+
+export interface UpdateReputationParams {
+  subject: string;
+  scoreChange: number | bigint; // signed
 }
 
-export interface ReleaseTrustParams {
-  trustId: number;
+export interface InitiateRecoveryParams {
+  identity: string;
+  newHash: string; // (buff 32)
 }
 
-export interface RevokeTrustParams {
-  trustId: number;
+export interface SetPauseGuardianParams {
+  guardian: string | null;
 }
 
-export interface ExtendTrustParams {
-  trustId: number;
-  newUnlockHeight: number;
+export interface SetAdminParams {
+  newAdmin: string;
 }
 
 export interface TrustVaultConfig {
@@ -159,12 +200,29 @@ export interface TrustVaultConfig {
   network?: StacksNetwork;
   contractAddress?: string;
   contractName?: string;
+  nonceManager?: NonceManager;
+  signer?: Signer;
+  keystore?: Keystore;
+  accounts?: AccountProvider;
+  selectAccounts?: AccountSelector;
+  sessionPolicy?: SessionPolicy;
+  approvals?: ApprovalQueue;
+  sessionStore?: SessionStore;
+  logger?: Logger;
+  limits?: SessionLimiter;
 }
 
 // Error types
 export interface WalletConnectError {
   code: number;
   message: string;
+  data?: unknown;
+}
+
+// `data` of INVALID_PARAMS errors: the parameter that failed and what it should be
+export interface InvalidParamsData {
+  field: string; // e.g. "amount" or "functionArgs[1]"
+  expected?: string;
 }
 
 export interface JsonRpcError {
@@ -254,6 +312,18 @@ export const STACKS_CHAINS = {
   testnet: 'stacks:testnet',
 } as const;
 
+// Devnet accounts use testnet addresses, so devnet sessions run on the testnet chain
+export function getSessionChain(network: StacksNetwork): string {
+  return network === 'mainnet' ? STACKS_CHAINS.mainnet : STACKS_CHAINS.testnet;
+}
+
+// Network of a Stacks chain id (named or numeric CAIP-2 form), null for other chains
+export function getNetworkFromChain(chain: string): StacksNetwork | null {
+  if (chain === STACKS_CHAINS.mainnet || chain === 'stacks:1') return 'mainnet';
+  if (chain === STACKS_CHAINS.testnet || chain === 'stacks:2147483648') return 'testnet';
+  return null;
+}
+
 export const STACKS_METHODS: StacksMethod[] = [
   'stx_getAddresses',
   'stx_transferStx',
@@ -282,6 +352,7 @@ export const ERROR_CODES = {
   UNSUPPORTED_METHOD: 10001,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  LIMIT_EXCEEDED: -32005,
 } as const;
 
 export const SDK_ERRORS = {
@@ -305,4 +376,8 @@ export const SDK_ERRORS = {
     code: ERROR_CODES.INTERNAL_ERROR,
     message: 'Internal error',
   },
+  LIMIT_EXCEEDED: {
+    code: ERROR_CODES.LIMIT_EXCEEDED,
+    message: 'Limit exceeded',
+  },
 } as const;
@@ -0,0 +1,139 @@
+import { ERROR_CODES } from './config';
+import { TrustVaultError } from './errors';
+import type {
+  RegisterIdentityParams,
+  SubmitProofParams,
+  IssueCredentialParams,
+  SetAdminParams,
+} from './types/walletconnect.types';
+
+/**
+ * Client-side mirrors of the trust-vault contract validators
+ *
+ * The `is*` predicates can back form validation on their own; the
+ * `validate*` functions throw the TrustVaultError the contract would return,
+ * so bad input is rejected before a transaction is built and paid for.
+ */
+
+// Limits from the contract constants and argument types
+export const HASH_LENGTH = 32;
+export const MINIMUM_PROOF_SIZE = 64;
+export const MAXIMUM_PROOF_SIZE = 1024;
+export const MAX_METADATA_LENGTH = 256;
+export const MIN_EXPIRATION_BLOCKS = 1;
+
+export type BufferInput = string | Uint8Array;
+
+// Byte length of a buffer argument, or null for malformed hex
+function byteLength(value: BufferInput): number | null {
+  if (typeof value !== 'string') return value.length;
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  return /^([0-9a-fA-F]{2})*$/.test(hex) ? hex.length / 2 : null;
+}
+
+function isZero(value: BufferInput): boolean {
+  if (typeof value !== 'string') return value.every((byte) => byte === 0);
+  return /^(0x)?0*$/.test(value);
+}
+
+/**
+ * `is-valid-hash`: 32 bytes that are not all zero
+ */
+export function isValidHash(hash: BufferInput): boolean {
+  return byteLength(hash) === HASH_LENGTH && !isZero(hash);
+}
+
+/**
+ * `is-valid-proof-data`: between 64 and 1024 bytes
+ */
+export function isValidProofData(proofData: BufferInput): boolean {
+  const length = byteLength(proofData);
+  return length !== null && length >= MINIMUM_PROOF_SIZE && length <= MAXIMUM_PROOF_SIZE;
+}
+
+/**
+ * `is-valid-metadata-length`: at most 256 characters
+ *
+ * Clarity measures `string-utf8` in unicode scalar values, not bytes.
+ */
+export function isValidMetadataLength(metadata: string): boolean {
+  return [...metadata].length <= MAX_METADATA_LENGTH;
+}
+
+/**
+ * `is-valid-expiration`: more than one block after the current block height
+ *
+ * The contract checks against the height the transaction is mined at, so an
+ * expiration that only just passes here can still fail on-chain.
+ */
+export function isValidExpiration(
+  expiration: number | bigint,
+  currentBlockHeight: number | bigint
+): boolean {
+  return BigInt(expiration) > BigInt(currentBlockHeight) + BigInt(MIN_EXPIRATION_BLOCKS);
+}
+
+/**
+ * `is-valid-recovery-address`: no recovery address, or one that is neither
+ * the sender nor (when known) the contract admin
+ */
+export function isValidRecoveryAddress(
+  recoveryAddress: string | null | undefined,
+  sender: string,
+  admin?: string
+): boolean {
+  if (!recoveryAddress) return true;
+  return recoveryAddress !== sender && recoveryAddress !== admin;
+}
+
+export function validateRegisterIdentity(
+  params: RegisterIdentityParams,
+  sender: string,
+  admin?: string
+): void {
+  if (!isValidHash(params.identityHash)) {
+    throw new TrustVaultError(ERROR_CODES.INVALID_INPUT, 'Identity hash must be 32 non-zero bytes');
+  }
+  if (!isValidRecoveryAddress(params.recoveryAddress, sender, admin)) {
+    throw new TrustVaultError(ERROR_CODES.INVALID_RECOVERY_ADDRESS);
+  }
+}
+
+export function validateSubmitProof(params: SubmitProofParams): void {
+  if (!isValidHash(params.proofHash)) {
+    throw new TrustVaultError(ERROR_CODES.INVALID_INPUT, 'Proof hash must be 32 non-zero bytes');
+  }
+  if (!isValidProofData(params.proofData)) {
+    throw new TrustVaultError(
+      ERROR_CODES.INVALID_PROOF_DATA,
+      `Proof data must be ${MINIMUM_PROOF_SIZE} to ${MAXIMUM_PROOF_SIZE} bytes`
+    );
+  }
+}
+
+export function validateIssueCredential(
+  params: IssueCredentialParams,
+  currentBlockHeight: number | bigint
+): void {
+  if (!isValidHash(params.claimHash)) {
+    throw new TrustVaultError(ERROR_CODES.INVALID_INPUT, 'Claim hash must be 32 non-zero bytes');
+  }
+  if (!isValidExpiration(params.expiration, currentBlockHeight)) {
+    throw new TrustVaultError(
+      ERROR_CODES.INVALID_EXPIRATION,
+      `Expiration must be after block ${BigInt(currentBlockHeight) + BigInt(MIN_EXPIRATION_BLOCKS)}`
+    );
+  }
+  if (!isValidMetadataLength(params.metadata)) {
+    throw new TrustVaultError(
+      ERROR_CODES.INVALID_INPUT,
+      `Metadata must be at most ${MAX_METADATA_LENGTH} characters`
+    );
+  }
+}
+
+export function validateSetAdmin(params: SetAdminParams, sender: string): void {
+  if (params.newAdmin === sender) {
+    throw new TrustVaultError(ERROR_CODES.INVALID_INPUT, 'New admin must differ from the sender');
+  }
+}
@@ -1,6 +1,77 @@
 import { Core } from '@walletconnect/core';
-import { WalletKit } from '@reown/walletkit';
+import { IWalletKit, WalletKit } from '@reown/walletkit';
 import { getSdkError } from '@walletconnect/utils';
+import {
+  broadcastTransaction,
+  makeUnsignedContractCall,
+  PayloadType,
+  PostConditionMode,
+  publicKeyToAddress,
+  StacksTransactionWire,
+  wireToPostCondition,
+} from '@stacks/transactions';
+import { NonceManager } from './nonce-manager';
+import {
+  AccountProvider,
+  AccountSelector,
+  getAccountAddress,
+  SignerAccountProvider,
+  toStacksAddress,
+  WalletAccount,
+} from './accounts';
+import {
+  ContractAbiCache,
+  decodeFunctionArgs,
+  decodePostConditions,
+  parseContractId,
+  validateFunctionCall,
+} from './contract-call';
+import { BroadcastError, WalletRequestError } from './errors';
+import { ApprovalQueue, summarizeRequest } from './approval-queue';
+import { createConsoleLogger, Logger, TypedEventEmitter, WalletEvents } from './events';
+import {
+  MemorySessionStore,
+  pruneExpiredSessions,
+  recordSessionRequest,
+  SessionRequestRecord,
+  SessionStore,
+  StoredSession,
+} from './session-store';
+import { getMetadataOrigin, SessionPolicy, SessionPolicyError } from './session-policy';
+import { LimitScope, SessionLimiter } from './session-limits';
+import { validateRequestParams } from './request-params';
+import { getStacksApiUrl } from './config';
+import {
+  buildStxTransfer,
+  fetchSpendableBalance,
+  parseMicroStx,
+  validateMemo,
+  validateRecipient,
+} from './stx-transfer';
+import {
+  getTransactionNetwork,
+  getTransactionOrigin,
+  parseSerializedTransaction,
+  Signer,
+  signSerializedTransaction,
+} from './signer';
+import { signStacksMessage } from './message-signing';
+import {
+  CHAIN_IDS,
+  parseStructuredDataDomain,
+  parseStructuredMessage,
+  signStructuredMessage,
+} from './structured-data';
+import {
+  CallContractParams,
+  getNetworkFromChain,
+  InvalidParamsData,
+  SDK_ERRORS,
+  SignStructuredMessageParams,
+  StacksAddress,
+  StacksNetwork,
+  WalletConnectMetadata,
+} from './types/walletconnect.types';
 
 // WalletConnect configuration
 const projectId = process.env.WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID';
@@ -13,11 +84,30 @@ export interface WalletConnectConfig {
     url: string;
     icons: string[];
   };
-}
-
-export interface StacksAddress {
-  symbol: string;
-  address: string;
+  // Shared by every path that sends transactions, so concurrent requests never collide
+  nonceManager: NonceManager;
+  // Holds the wallet keys; signing methods fail without one
+  signer?: Signer;
+  // Stacks API used for broadcasts, defaults to Hiro's API for the network
+  apiUrl?: string;
+  // Used for Stacks API requests, defaults to the global fetch
+  fetch?: typeof fetch;
+  // Already initialized WalletKit, e.g. a local relay stand-in; created by init otherwise
+  walletKit?: IWalletKit;
+  // Accounts that can be exposed to dApps, defaults to the signer's account
+  accounts?: AccountProvider;
+  // Lets the user pick the accounts a dApp sees, defaults to the first account
+  selectAccounts?: AccountSelector;
+  // Chains, methods and origins sessions may be granted, defaults to all supported
+  sessionPolicy?: SessionPolicy;
+  // Holds requests until the user answers them
+  approvals?: ApprovalQueue;
+  // Per-session accounts, grants and request history, kept across restarts
+  sessionStore?: SessionStore;
+  // Receives diagnostics, defaults to the console at info level
+  logger?: Logger;
+  // Spending and rate limits per session or origin, none by default
+  limits?: SessionLimiter;
 }
 
 export interface TransferStxParams {
@@ -42,18 +132,22 @@ export interface SignMessageParams {
   domain?: string;
 }
 
-export interface CallContractParams {
-  contract: string;
-  functionName: string;
-  functionArgs: string[];
-}
-
-export class StacksWalletConnect {
-  private core: Core;
-  private walletKit: WalletKit | null = null;
+export class StacksWalletConnect extends TypedEventEmitter<WalletEvents> {
+  private walletKit: IWalletKit | null = null;
   private config: WalletConnectConfig;
+  protected readonly nonces: NonceManager;
+  protected readonly signer?: Signer;
+  private accounts?: AccountProvider;
+  private policy: SessionPolicy;
+  // Register `onApprovalRequired` to show requests; nothing runs without consent
+  readonly approvals: ApprovalQueue;
+  private sessions: SessionStore;
+  private abis: ContractAbiCache;
+  protected readonly logger: Logger;
+  private limits: SessionLimiter;
 
   constructor(config?: Partial<WalletConnectConfig>) {
+    super();
     this.config = {
       projectId: config?.projectId || projectId,
       metadata: config?.metadata || {
@@ -62,11 +156,30 @@ export class StacksWalletConnect {
         url: 'https://trustvault.stacks.io',
         icons: ['https://trustvault.stacks.io/icon.png'],
       },
+      nonceManager:
+        config?.nonceManager || new NonceManager({ apiUrl: config?.apiUrl, fetch: config?.fetch }),
+      signer: config?.signer,
+      apiUrl: config?.apiUrl,
+      fetch: config?.fetch,
+      walletKit: config?.walletKit,
+      accounts: config?.accounts,
+      selectAccounts: config?.selectAccounts,
+      sessionPolicy: config?.sessionPolicy,
+      approvals: config?.approvals,
+      sessionStore: config?.sessionStore,
+      logger: config?.logger,
+      limits: config?.limits,
     };
-
-    this.core = new Core({
-      projectId: this.config.projectId,
-    });
+    this.nonces = this.config.nonceManager;
+    this.signer = this.config.signer;
+    this.accounts =
+      this.config.accounts || (this.signer && new SignerAccountProvider(this.signer));
+    this.policy = this.config.sessionPolicy || new SessionPolicy();
+    this.approvals = this.config.approvals || new ApprovalQueue();
+    this.sessions = this.config.sessionStore || new MemorySessionStore();
+    this.abis = new ContractAbiCache({ apiUrl: this.config.apiUrl, fetch: this.config.fetch });
+    this.logger = this.config.logger || createConsoleLogger();
+    this.limits = this.config.limits || new SessionLimiter();
   }
 
   /**
@@ -74,19 +187,25 @@ export class StacksWalletConnect {
    */
   async init(): Promise<void> {
     if (this.walletKit) {
-      console.log('WalletKit already initialized');
+      this.logger.warn('WalletKit already initialized');
       return;
     }
 
-    this.walletKit = await WalletKit.init({
-      core: this.core,
-      metadata: this.config.metadata,
-    });
+    this.walletKit =
+      this.config.walletKit ||
+      (await WalletKit.init({
+        core: new Core({ projectId: this.config.projectId }),
+        metadata: this.config.metadata,
+      }));
 
     // Set up event listeners
     this.setupEventListeners();
 
-    console.log('WalletConnect initialized successfully');
+    const expired = await pruneExpiredSessions(this.sessions);
+    const restored = await this.sessions.loadAll();
+    this.logger.info(`Restored ${restored.length} sessions, pruned ${expired.length} expired`);
+
+    this.logger.info('WalletConnect initialized successfully');
   }
 
   /**
@@ -97,22 +216,23 @@ export class StacksWalletConnect {
 
     // Session proposal event
     this.walletKit.on('session_proposal', async (proposal) => {
-      console.log('Session proposal received:', proposal);
+      this.logger.debug('Session proposal received', proposal);
       // Handle session proposal - approve or reject
       await this.handleSessionProposal(proposal);
     });
 
     // Session request event
     this.walletKit.on('session_request', async (requestEvent) => {
-      console.log('Session request received:', requestEvent);
+      this.logger.debug('Session request received', requestEvent);
       // Handle session request based on method
       await this.handleSessionRequest(requestEvent);
     });
 
     // Session delete event
-    this.walletKit.on('session_delete', (deleteEvent) => {
-      console.log('Session deleted:', deleteEvent);
-      // Clean up session
+    this.walletKit.on('session_delete', async (deleteEvent) => {
+      this.logger.info('Session deleted', deleteEvent);
+      await this.sessions.delete(deleteEvent.topic);
+      this.emit('session_delete', { topic: deleteEvent.topic });
     });
   }
 
@@ -122,72 +242,98 @@ export class StacksWalletConnect {
   private async handleSessionProposal(proposal: any): Promise<void> {
     if (!this.walletKit) throw new Error('WalletKit not initialized');
 
+    const { id, params } = proposal;
+
+    // Prefer the origin verified by WalletConnect over the dApp's own metadata
+    const origin: string | null =
+      proposal.verifyContext?.verified?.origin || getMetadataOrigin(params);
+    this.emit('session_proposal', { id, dapp: params.proposer?.metadata, origin });
+
     try {
-      // Get the required and optional namespaces
-      const { id, params } = proposal;
-      const { requiredNamespaces, optionalNamespaces } = params;
-
-      // Build the namespaces with Stacks support
-      const namespaces: any = {};
-
-      // Handle required namespaces
-      if (requiredNamespaces?.stacks) {
-        namespaces.stacks = {
-          chains: requiredNamespaces.stacks.chains,
-          methods: requiredNamespaces.stacks.methods,
-          events: requiredNamespaces.stacks.events,
-          accounts: this.buildStacksAccounts(requiredNamespaces.stacks.chains),
-        };
-      }
+      const grant = this.policy.evaluate(params, origin);
+      const accounts = await this.selectSessionAccounts(params.proposer?.metadata);
 
-      // Handle optional namespaces
-      if (optionalNamespaces?.stacks) {
-        if (!namespaces.stacks) {
-          namespaces.stacks = {
-            chains: optionalNamespaces.stacks.chains || [],
-            methods: optionalNamespaces.stacks.methods || [],
-            events: optionalNamespaces.stacks.events || [],
-            accounts: this.buildStacksAccounts(optionalNamespaces.stacks.chains || []),
-          };
-        }
-      }
+      const namespaces = {
+        stacks: { ...grant, accounts: this.buildStacksAccounts(grant.chains, accounts) },
+      };
 
       // Approve the session
-      await this.walletKit.approveSession({
+      const session = await this.walletKit.approveSession({
         id,
         namespaces,
       });
 
-      console.log('Session approved successfully');
+      await this.sessions.save({
+        topic: session.topic,
+        expiry: session.expiry,
+        dapp: params.proposer?.metadata,
+        origin,
+        accounts,
+        grant,
+        requests: [],
+      });
+
+      this.logger.info('Session approved', { topic: session.topic, origin });
     } catch (error) {
-      console.error('Error approving session:', error);
+      if (error instanceof SessionPolicyError) {
+        this.logger.warn('Session proposal rejected by policy', { origin, reason: error.message });
+      } else {
+        this.logger.error('Error approving session', error);
+        this.emit('error', { error: toError(error), context: 'session_proposal' });
+      }
       // Reject the session
       await this.walletKit.rejectSession({
         id: proposal.id,
-        reason: getSdkError('USER_REJECTED'),
+        reason:
+          error instanceof SessionPolicyError
+            ? getSdkError(error.reason, error.message)
+            : getSdkError('USER_REJECTED'),
       });
     }
   }
 
   /**
-   * Build Stacks accounts for session approval
+   * Accounts the user exposes to a dApp proposing a session
    */
-  private buildStacksAccounts(chains: string[]): string[] {
-    // TODO: Replace with actual wallet addresses
-    // This should get addresses from your wallet implementation
-    const mainnetAddress = 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE';
-    const testnetAddress = 'ST3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE';
-
-    const accounts: string[] = [];
-    chains.forEach((chain) => {
-      if (chain.includes('mainnet')) {
-        accounts.push(`${chain}:${mainnetAddress}`);
-      } else if (chain.includes('testnet')) {
-        accounts.push(`${chain}:${testnetAddress}`);
-      }
+  private async selectSessionAccounts(dapp: WalletConnectMetadata): Promise<WalletAccount[]> {
+    const available = this.accounts ? await this.accounts.getAccounts() : [];
+    const selected = this.config.selectAccounts
+      ? await this.config.selectAccounts(dapp, available)
+      : available.slice(0, 1);
+
+    if (selected.length === 0) throw new Error('No accounts selected for the session');
+    return selected;
+  }
+
+  /**
+   * Build CAIP-10 Stacks accounts for session approval
+   */
+  private buildStacksAccounts(chains: string[], accounts: WalletAccount[]): string[] {
+    return chains.flatMap((chain) => {
+      const network = getNetworkFromChain(chain);
+      if (!network) return [];
+      return accounts.map((account) => `${chain}:${getAccountAddress(account, network)}`);
     });
+  }
 
-    return accounts;
+  /**
+   * Accounts approved for a session, falling back to the addresses in its namespace
+   */
+  private async getSessionAccounts(topic: string): Promise<WalletAccount[]> {
+    const stored = await this.sessions.load(topic);
+    if (stored) return stored.accounts;
+
+    const session = this.walletKit?.getActiveSessions()[topic];
+    const approved = new Set(
+      (session?.namespaces.stacks?.accounts || []).map((account) => account.split(':').pop())
+    );
+
+    const available = this.accounts ? await this.accounts.getAccounts() : [];
+    return available.filter((account) =>
+      (['mainnet', 'testnet'] as const).some((network) =>
+        approved.has(getAccountAddress(account, network))
+      )
+    );
   }
 
   /**
@@ -196,137 +342,506 @@ export class StacksWalletConnect {
   private async handleSessionRequest(requestEvent: any): Promise<void> {
     if (!this.walletKit) throw new Error('WalletKit not initialized');
 
-    const { topic, params } = requestEvent;
+    // The JSON-RPC id is on the event, not on params.request
+    const { id, topic, params } = requestEvent;
     const { request } = params;
     const { method, params: methodParams } = request;
+    this.emit('session_request', { id, topic, method, chainId: params.chainId });
+
+    // Shown to the user for approval and kept in the request history
+    let summary = summarizeRequest(method, methodParams);
+    if (summary.warnings.length > 0) {
+      this.logger.warn('Request needs attention', { id, method, warnings: summary.warnings });
+    }
 
     try {
+      validateRequestParams(method, methodParams);
+
+      // Checked before the prompt so a flooding dApp cannot spam the user
+      const scope: LimitScope = { topic, origin: (await this.sessions.load(topic))?.origin };
+      await this.limits.checkRequest(scope, method);
+
+      // Calls the contract would refuse are answered without asking the user; the
+      // others are built first so the prompt shows their fee and nonce
+      let contractCall: StacksTransactionWire | undefined;
+      if (method === 'stx_callContract') {
+        contractCall = await this.buildContractCall(methodParams, params.chainId, topic);
+        summary = summarizeRequest(method, methodParams, contractCall);
+      }
+
+      await this.approvals.request({
+        id,
+        topic,
+        method,
+        params: methodParams,
+        chainId: params.chainId,
+        dapp: this.walletKit.getActiveSessions()[topic]?.peer.metadata,
+        summary,
+      });
+      this.emit('request_approved', { id, topic, method });
+
       let result;
 
       switch (method) {
         case 'stx_getAddresses':
-          result = await this.handleGetAddresses();
+          result = await this.handleGetAddresses(topic, params.chainId);
           break;
 
         case 'stx_transferStx':
-          result = await this.handleTransferStx(methodParams);
+          result = await this.handleTransferStx(methodParams, params.chainId, scope);
           break;
 
         case 'stx_signTransaction':
-          result = await this.handleSignTransaction(methodParams);
+          result = await this.handleSignTransaction(methodParams, params.chainId, scope);
           break;
 
         case 'stx_signMessage':
-          result = await this.handleSignMessage(methodParams);
+          result = await this.handleSignMessage(methodParams, params.chainId, topic);
           break;
 
         case 'stx_signStructuredMessage':
-          result = await this.handleSignStructuredMessage(methodParams);
+          result = await this.handleSignStructuredMessage(methodParams, params.chainId, topic);
           break;
 
         case 'stx_callContract':
-          result = await this.handleCallContract(methodParams);
+          result = await this.handleCallContract(
+            methodParams,
+            params.chainId,
+            scope,
+            contractCall!
+          );
           break;
 
         default:
-          throw new Error(`Unsupported method: ${method}`);
+          throw new WalletRequestError(
+            SDK_ERRORS.UNSUPPORTED_METHOD,
+            `Unsupported method: ${method}`
+          );
       }
 
       // Respond to the session request
       await this.walletKit.respondSessionRequest({
         topic,
         response: {
-          id: request.id,
+          id,
           jsonrpc: '2.0',
           result,
         },
       });
     } catch (error) {
-      console.error('Error handling session request:', error);
-      
-      // Respond with error
-      await this.walletKit.respondSessionRequest({
-        topic,
-        response: {
-          id: request.id,
-          jsonrpc: '2.0',
-          error: {
-            code: 5000,
-            message: error instanceof Error ? error.message : 'Unknown error',
+      // Failures the handlers did not anticipate are the wallet's, not the dApp's
+      const { code, message, data } =
+        error instanceof WalletRequestError
+          ? error
+          : new WalletRequestError(
+              SDK_ERRORS.INTERNAL_ERROR,
+              error instanceof Error ? error.message : undefined
+            );
+      const rejected = code === SDK_ERRORS.USER_REJECTED.code;
+
+      if (rejected) {
+        this.logger.info('Session request rejected', { id, method, reason: message });
+        this.emit('request_rejected', { id, topic, method, reason: message });
+      } else {
+        this.logger.error('Error handling session request', error);
+        this.emit('error', { error: toError(error), context: 'session_request' });
+      }
+
+      // Respond with error; this runs in an event listener, so nothing may escape it
+      try {
+        await this.walletKit.respondSessionRequest({
+          topic,
+          response: {
+            id,
+            jsonrpc: '2.0',
+            // WalletConnect types error data as a string, so structured data is sent as JSON
+            error: { code, message, ...(data !== undefined && { data: JSON.stringify(data) }) },
           },
-        },
+        });
+      } catch (respondError) {
+        this.logger.error('Failed to respond to session request', respondError);
+      }
+
+      await this.recordRequest(topic, {
+        id,
+        method,
+        status: rejected ? 'rejected' : 'failed',
+        at: Date.now(),
+        error: message,
+        summary,
       });
+      return;
+    }
+
+    // Recorded once the dApp has its answer, so a store failure cannot answer twice
+    await this.recordRequest(topic, {
+      id,
+      method,
+      status: 'completed',
+      at: Date.now(),
+      summary,
+    });
+  }
+
+  /**
+   * Add a request to the session's history, logging rather than throwing on failure
+   */
+  private async recordRequest(topic: string, record: SessionRequestRecord): Promise<void> {
+    try {
+      await recordSessionRequest(this.sessions, topic, record);
+    } catch (error) {
+      this.logger.error('Failed to record session request', error);
     }
   }
 
   /**
    * Handle stx_getAddresses request
    */
-  private async handleGetAddresses(): Promise<{ addresses: StacksAddress[] }> {
-    // TODO: Implement actual wallet address retrieval
-    // This should integrate with your wallet implementation
-    return {
-      addresses: [
-        {
-          symbol: 'STX',
-          address: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE',
-        },
-      ],
-    };
+  private async handleGetAddresses(topic: string, chainId?: string): Promise<{ addresses: StacksAddress[] }> {
+    const network = (chainId && getNetworkFromChain(chainId)) || 'mainnet';
+    const accounts = await this.getSessionAccounts(topic);
+
+    return { addresses: accounts.map((account) => toStacksAddress(account, network)) };
   }
 
   /**
    * Handle stx_transferStx request
    */
-  private async handleTransferStx(params: TransferStxParams): Promise<{ txid: string; transaction: string }> {
-    // TODO: Implement STX transfer
-    // This should create and broadcast an STX transfer transaction
-    console.log('Transfer STX params:', params);
-    
-    throw new Error('stx_transferStx not implemented');
+  private async handleTransferStx(params: TransferStxParams, chainId: string | undefined, scope: LimitScope): Promise<{ txid: string; transaction: string }> {
+    const network = this.getRequestNetwork(params.network, chainId);
+    const signer = await this.getSessionSigner(scope.topic, network, params.sender);
+
+    const amount = parseMicroStx(params.amount);
+    validateMemo(params.memo);
+    validateRecipient(params.recipient);
+
+    const apiUrl = this.config.apiUrl || getStacksApiUrl(network);
+    const spendable = await fetchSpendableBalance(params.sender, {
+      apiUrl,
+      fetch: this.config.fetch,
+    });
+    if (amount > spendable) {
+      throw new WalletRequestError(
+        SDK_ERRORS.INVALID_PARAMS,
+        `Insufficient balance: ${spendable} uSTX available, ${amount} requested`
+      );
+    }
+
+    await this.limits.reserveSpend(scope, amount);
+    const send = this.sendTransaction(signer, network, async (publicKey, nonce) => {
+      const transaction = await buildStxTransfer({
+        sender: params.sender,
+        recipient: params.recipient,
+        amount,
+        memo: params.memo,
+        publicKey,
+        nonce,
+        network,
+        apiUrl,
+        fetch: this.config.fetch,
+      });
+
+      const fee = transaction.auth.spendingCondition.fee;
+      if (amount + fee > spendable) {
+        throw new WalletRequestError(
+          SDK_ERRORS.INVALID_PARAMS,
+          `Insufficient balance: ${spendable} uSTX available, ${amount + fee} needed with fees`
+        );
+      }
+      this.limits.checkFee(scope, fee);
+      return transaction;
+    });
+
+    try {
+      return await send;
+    } catch (error) {
+      await this.limits.releaseSpend(scope, amount);
+      throw error;
+    }
   }
 
   /**
    * Handle stx_signTransaction request
    */
-  private async handleSignTransaction(params: SignTransactionParams): Promise<{ signature: string; transaction: string; txid?: string }> {
-    // TODO: Implement transaction signing
-    // This should sign a transaction and optionally broadcast it
-    console.log('Sign transaction params:', params);
-    
-    throw new Error('stx_signTransaction not implemented');
+  private async handleSignTransaction(params: SignTransactionParams, chainId: string | undefined, scope: LimitScope): Promise<{ signature: string; transaction: string; txid?: string }> {
+    const network = (chainId && getNetworkFromChain(chainId)) || params.network;
+    if (params.network && network !== params.network) {
+      const message = `Requested ${params.network} but the session is on ${network}`;
+      throw invalidParams(message, 'network');
+    }
+
+    const unsigned = parseSerializedTransaction(params.transaction);
+    const signer = await this.getSessionSigner(
+      scope.topic,
+      getTransactionNetwork(unsigned),
+      getTransactionOrigin(unsigned)
+    );
+
+    // The dApp may broadcast a signed transaction itself, so signing alone counts as spending
+    this.limits.checkFee(scope, unsigned.auth.spendingCondition.fee);
+    let amount: bigint;
+    if (unsigned.payload.payloadType === PayloadType.TokenTransfer) {
+      amount = unsigned.payload.amount;
+      await this.limits.reserveSpend(scope, amount);
+    } else {
+      amount = await this.limits.reserveContractSpend(
+        scope,
+        getTransactionOrigin(unsigned),
+        unsigned.postConditionMode === PostConditionMode.Allow ? 'allow' : 'deny',
+        unsigned.postConditions.values.map((wire) => wireToPostCondition(wire))
+      );
+    }
+
+    try {
+      const { transaction, signature } = await signSerializedTransaction(
+        signer,
+        params.transaction,
+        network
+      );
+
+      if (!params.broadcast) {
+        return { signature, transaction: transaction.serialize() };
+      }
+
+      const txid = await this.broadcast(transaction, network || getTransactionNetwork(transaction));
+      return { signature, transaction: transaction.serialize(), txid };
+    } catch (error) {
+      await this.limits.releaseSpend(scope, amount);
+      throw error;
+    }
   }
 
   /**
    * Handle stx_signMessage request
    */
-  private async handleSignMessage(params: SignMessageParams): Promise<{ signature: string }> {
-    // TODO: Implement message signing
-    // This should sign an arbitrary message
-    console.log('Sign message params:', params);
-    
-    throw new Error('stx_signMessage not implemented');
+  private async handleSignMessage(params: SignMessageParams, chainId: string | undefined, topic: string): Promise<{ signature: string; publicKey: string }> {
+    if (params.messageType === 'structured') {
+      const message = 'Structured messages must be signed with stx_signStructuredMessage';
+      throw invalidParams(message, 'messageType');
+    }
+
+    const network = this.getRequestNetwork(params.network, chainId);
+    const signer = await this.getSessionSigner(topic, network, params.address);
+
+    return signStacksMessage(signer, params.message);
   }
 
   /**
    * Handle stx_signStructuredMessage request
    */
-  private async handleSignStructuredMessage(params: any): Promise<{ signature: string; publicKey?: string }> {
-    // TODO: Implement structured message signing (SIP-018)
-    console.log('Sign structured message params:', params);
-    
-    throw new Error('stx_signStructuredMessage not implemented');
+  private async handleSignStructuredMessage(params: SignStructuredMessageParams, chainId: string | undefined, topic: string): Promise<{ signature: string; publicKey: string }> {
+    const domain = parseParam('domain', () => parseStructuredDataDomain(params.domain));
+    const message = parseParam('message', () => parseStructuredMessage(params.message));
+
+    // A signature for another chain could be replayed there
+    const network = chainId && getNetworkFromChain(chainId);
+    if (network && domain.chainId !== CHAIN_IDS[network]) {
+      throw invalidParams(
+        `Domain chain-id ${domain.chainId} does not match the session network ${network}`,
+        'domain'
+      );
+    }
+
+    const signer = await this.getSessionSigner(topic, network || 'mainnet');
+    return signStructuredMessage(signer, message, domain);
   }
 
   /**
-   * Handle stx_callContract request
+   * Build an unsigned contract call, checking it against the contract ABI
+   *
+   * The fee is estimated and the nonce is the account's next one, so both can
+   * be shown before the user approves; the nonce is reserved only on signing.
    */
-  private async handleCallContract(params: CallContractParams): Promise<{ txid: string; transaction: string }> {
-    // TODO: Implement contract call
-    // This should create and broadcast a contract call transaction
-    console.log('Call contract params:', params);
-    
-    throw new Error('stx_callContract not implemented');
+  private async buildContractCall(
+    params: CallContractParams,
+    chainId: string | undefined,
+    topic: string
+  ): Promise<StacksTransactionWire> {
+    const network = this.getRequestNetwork(params.network, chainId);
+    const signer = await this.getSessionSigner(topic, network, params.sender);
+    const publicKey = await signer.getPublicKey();
+
+    const contract = parseContractId(params.contract);
+    const functionArgs = decodeFunctionArgs(params.functionArgs);
+    const abi = await this.abis.get(network, contract);
+    validateFunctionCall(abi, contract, params.functionName, functionArgs);
+
+    return makeUnsignedContractCall({
+      ...contract,
+      functionName: params.functionName,
+      functionArgs,
+      publicKey,
+      nonce: await this.nonces.peek(publicKeyToAddress(publicKey, network)),
+      postConditions: decodePostConditions(params.postConditions),
+      postConditionMode: params.postConditionMode || 'deny',
+      validateWithAbi: abi,
+      network,
+      client: this.getApiClient(),
+    });
+  }
+
+  /**
+   * Handle stx_callContract request, signing the call built for the prompt
+   */
+  private async handleCallContract(
+    params: CallContractParams,
+    chainId: string | undefined,
+    scope: LimitScope,
+    transaction: StacksTransactionWire
+  ): Promise<{ txid: string; transaction: string }> {
+    const network = this.getRequestNetwork(params.network, chainId);
+    const signer = await this.getSessionSigner(scope.topic, network, params.sender);
+    this.limits.checkFee(scope, transaction.auth.spendingCondition.fee);
+
+    const sender = publicKeyToAddress(await signer.getPublicKey(), network);
+    const amount = await this.limits.reserveContractSpend(
+      scope,
+      sender,
+      params.postConditionMode || 'deny',
+      transaction.postConditions.values.map(wireToPostCondition)
+    );
+    const send = this.sendTransaction(signer, network, async (_publicKey, nonce) => {
+      // Another request may have taken the nonce shown in the prompt
+      transaction.setNonce(nonce);
+      return transaction;
+    });
+
+    try {
+      return await send;
+    } catch (error) {
+      await this.limits.releaseSpend(scope, amount);
+      throw error;
+    }
+  }
+
+  /**
+   * Build, sign and broadcast a transaction from the signer's account
+   *
+   * The nonce comes from the shared nonce manager and is released again
+   * if the transaction never reaches the mempool, or invalidated if the
+   * node rejects it as already used.
+   */
+  protected async sendTransaction(
+    signer: Signer,
+    network: StacksNetwork,
+    build: (publicKey: string, nonce: bigint) => Promise<StacksTransactionWire>
+  ): Promise<{ txid: string; transaction: string }> {
+    const publicKey = await signer.getPublicKey();
+    const sender = publicKeyToAddress(publicKey, network);
+    const nonce = await this.nonces.reserve(sender);
+
+    let transaction;
+    let txid;
+    try {
+      transaction = await signer.signTransaction(await build(publicKey, nonce));
+      txid = await this.broadcast(transaction, network);
+    } catch (error) {
+      if (error instanceof BroadcastError && error.reason === 'BadNonce') {
+        await this.nonces.invalidate(sender, nonce);
+      } else {
+        await this.nonces.release(sender, nonce);
+      }
+      throw error;
+    }
+    await this.nonces.confirm(sender, nonce, txid);
+
+    return { txid, transaction: transaction.serialize() };
+  }
+
+  /**
+   * Broadcast a signed transaction, returning its txid
+   */
+  private async broadcast(transaction: StacksTransactionWire, network: StacksNetwork): Promise<string> {
+    const response = await broadcastTransaction({
+      transaction,
+      network,
+      client: this.getApiClient(),
+    });
+    if ('error' in response) {
+      const error = new BroadcastError(response.reason);
+      this.emit('error', { error, context: 'transaction_broadcast' });
+      throw error;
+    }
+
+    this.logger.info('Transaction broadcast', { txid: response.txid, network });
+    this.emit('transaction_broadcast', {
+      txid: response.txid,
+      transaction: transaction.serialize(),
+      network,
+    });
+    return response.txid;
+  }
+
+  /**
+   * Stacks API client options for @stacks/transactions calls
+   */
+  private getApiClient(): { baseUrl?: string; fetch?: typeof fetch } {
+    return {
+      ...(this.config.apiUrl && { baseUrl: this.config.apiUrl }),
+      ...(this.config.fetch && { fetch: this.config.fetch }),
+    };
+  }
+
+  /**
+   * Network a request runs on: the session chain, else the requested network, else mainnet
+   */
+  private getRequestNetwork(requested?: StacksNetwork, chainId?: string): StacksNetwork {
+    const network = (chainId && getNetworkFromChain(chainId)) || requested || 'mainnet';
+    if (requested && network !== requested) {
+      throw invalidParams(`Requested ${requested} but the session is on ${network}`, 'network');
+    }
+    return network;
+  }
+
+  /**
+   * Signer of a session account; addresses the session was not given are UNAUTHORIZED
+   *
+   * Without an address the session's first account signs.
+   */
+  private async getSessionSigner(
+    topic: string,
+    network: StacksNetwork,
+    address?: string
+  ): Promise<Signer> {
+    const accounts = await this.getSessionAccounts(topic);
+    const account =
+      address === undefined
+        ? accounts[0]
+        : accounts.find((candidate) => getAccountAddress(candidate, network) === address);
+    if (!account) {
+      throw new WalletRequestError(
+        SDK_ERRORS.UNAUTHORIZED,
+        address === undefined
+          ? 'The session has no accounts'
+          : `Address ${address} is not an account of this session on ${network}`
+      );
+    }
+
+    const signer = await this.getAccountSigner(account);
+    if (!signer) throw new Error(`No signer configured for account ${account.index}`);
+    return signer;
+  }
+
+  /**
+   * Signer of the wallet's first account, for transactions the wallet starts itself
+   */
+  protected async getDefaultSigner(): Promise<Signer | undefined> {
+    if (this.signer) return this.signer;
+
+    const [account] = this.accounts ? await this.accounts.getAccounts() : [];
+    return account && this.getAccountSigner(account);
+  }
+
+  /**
+   * Signer of a wallet account: the account provider's key for it, else the
+   * configured signer when it holds that account's key
+   */
+  private async getAccountSigner(account: WalletAccount): Promise<Signer | undefined> {
+    if (this.accounts?.getSigner) return this.accounts.getSigner(account.index);
+    if (this.signer && (await this.signer.getPublicKey()) === account.publicKey) {
+      return this.signer;
+    }
+    return undefined;
   }
 
   /**
@@ -336,7 +851,7 @@ export class StacksWalletConnect {
     if (!this.walletKit) throw new Error('WalletKit not initialized');
     
     await this.walletKit.core.pairing.pair({ uri });
-    console.log('Paired successfully with URI');
+    this.logger.info('Paired successfully with URI');
   }
 
   /**
@@ -348,6 +863,13 @@ export class StacksWalletConnect {
     return Object.values(this.walletKit.getActiveSessions());
   }
 
+  /**
+   * Stored accounts, grant and request history of a session
+   */
+  async getSessionState(topic: string): Promise<StoredSession | null> {
+    return this.sessions.load(topic);
+  }
+
   /**
    * Disconnect a session
    */
@@ -358,8 +880,40 @@ export class StacksWalletConnect {
       topic,
       reason: getSdkError('USER_DISCONNECTED'),
     });
+    await this.sessions.delete(topic);
     
-    console.log('Session disconnected:', topic);
+    this.logger.info('Session disconnected', { topic });
+    this.emit('session_delete', { topic });
+  }
+
+  /**
+   * Change the accounts exposed to a connected dApp
+   */
+  async updateSessionAccounts(topic: string, accounts: WalletAccount[]): Promise<void> {
+    if (!this.walletKit) throw new Error('WalletKit not initialized');
+
+    const stored = await this.sessions.load(topic);
+    if (!stored) throw new Error(`Unknown session: ${topic}`);
+    if (accounts.length === 0) throw new Error('A session needs at least one account');
+
+    const caipAccounts = this.buildStacksAccounts(stored.grant.chains, accounts);
+    await this.walletKit.updateSession({
+      topic,
+      namespaces: { stacks: { ...stored.grant, accounts: caipAccounts } },
+    });
+    await this.sessions.save({ ...stored, accounts });
+
+    this.emit('session_update', { topic, grant: stored.grant, accounts: caipAccounts });
+  }
+
+  /**
+   * Send a session event such as accountsChanged to a connected dApp
+   */
+  async emitSessionEvent(topic: string, chainId: string, name: string, data: unknown): Promise<void> {
+    if (!this.walletKit) throw new Error('WalletKit not initialized');
+
+    await this.walletKit.emitSessionEvent({ topic, chainId, event: { name, data } });
+    this.emit('session_event', { topic, chainId, name, data });
   }
 
   /**
@@ -373,7 +927,30 @@ export class StacksWalletConnect {
       await this.disconnectSession(session.topic);
     }
     
-    console.log('WalletConnect cleanup completed');
+    this.logger.info('WalletConnect cleanup completed');
+  }
+
+  protected onListenerError(event: keyof WalletEvents, error: unknown): void {
+    this.logger.error(`Listener for ${String(event)} failed`, error);
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function invalidParams(message: string, field: string): WalletRequestError {
+  const data: InvalidParamsData = { field };
+  return new WalletRequestError(SDK_ERRORS.INVALID_PARAMS, message, data);
+}
+
+// Runs a parser of a request parameter, reporting its errors as INVALID_PARAMS
+function parseParam<T>(field: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof WalletRequestError) throw error;
+    throw invalidParams(error instanceof Error ? error.message : String(error), field);
   }
 }
 
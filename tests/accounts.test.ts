@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { publicKeyToAddress } from "@stacks/transactions";
+import {
+  MnemonicAccountProvider,
+  SignerAccountProvider,
+  getAccountAddress,
+  toStacksAddress,
+} from "../src/accounts";
+
+// Deployer and wallet_1 from settings/Devnet.toml
+const deployerMnemonic =
+  "twice kind fence tip hidden tilt action fragile skin nothing glory cousin green tomorrow spring wrist shed math olympic multiply hip blue scout claw";
+const wallet1Mnemonic =
+  "sell invite acquire kitten bamboo drastic jelly vivid peace spawn twice guilt pave pen trash pretty park cube fragile unaware remain midnight betray rebuild";
+
+describe("Account providers", () => {
+  it("derives the first account at the Stacks derivation path", async () => {
+    const deployer = await new MnemonicAccountProvider(deployerMnemonic).getAccounts();
+    const wallet1 = await new MnemonicAccountProvider(`  ${wallet1Mnemonic}\n`).getAccounts();
+
+    expect(deployer).toHaveLength(1);
+    expect(getAccountAddress(deployer[0], "testnet")).toBe("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM");
+    expect(getAccountAddress(deployer[0], "devnet")).toBe("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM");
+    // Same hash160 under the mainnet version, so only the checksum differs
+    expect(getAccountAddress(deployer[0], "mainnet")).toMatch(/^SP1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSR/);
+    expect(getAccountAddress(wallet1[0], "testnet")).toBe("ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5");
+  });
+
+  it("derives distinct accounts whose signers match their addresses", async () => {
+    const provider = new MnemonicAccountProvider(deployerMnemonic, { accountCount: 3 });
+
+    const accounts = await provider.getAccounts();
+
+    expect(accounts.map((account) => account.index)).toEqual([0, 1, 2]);
+    expect(new Set(accounts.map((account) => account.publicKey)).size).toBe(3);
+    expect(await provider.getSigner(2).getPublicKey()).toBe(accounts[2].publicKey);
+    expect(toStacksAddress(accounts[1], "mainnet")).toEqual({
+      symbol: "STX",
+      address: publicKeyToAddress(accounts[1].publicKey, "mainnet"),
+      publicKey: accounts[1].publicKey,
+    });
+  });
+
+  it("rejects invalid mnemonics and exposes a signer's own account", async () => {
+    expect(() => new MnemonicAccountProvider("twice kind fence")).toThrow("Invalid mnemonic");
+
+    const signer = new MnemonicAccountProvider(wallet1Mnemonic).getSigner(0);
+    const [account] = await new SignerAccountProvider(signer).getAccounts();
+    expect(getAccountAddress(account, "testnet")).toBe("ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  Cl,
+  cvToHex,
+  makeUnsignedSTXTokenTransfer,
+  privateKeyToPublic,
+  publicKeyToHex,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import { ApprovalQueue, PendingRequest, summarizeRequest } from "../src/approval-queue";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const transfer = {
+  sender: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+  recipient: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+  amount: "2500",
+  memo: "rent",
+};
+
+function request(id: number, method = "stx_transferStx", params: unknown = transfer) {
+  return { id, topic: "topic-1", method, params, chainId: "stacks:testnet" };
+}
+
+const userRejected = expect.objectContaining({ code: ERROR_CODES.USER_REJECTED });
+
+describe("ApprovalQueue", () => {
+  it("runs a request once the user approves it", async () => {
+    const queue = new ApprovalQueue();
+    const shown: PendingRequest[] = [];
+    queue.onApprovalRequired((pending) => {
+      shown.push(pending);
+    });
+
+    const decision = queue.request(request(1));
+    await Promise.resolve();
+
+    expect(queue.getPending().map((pending) => pending.id)).toEqual([1]);
+    expect(shown[0].summary).toEqual({
+      title: "Send 2500 uSTX",
+      details: { from: transfer.sender, to: transfer.recipient, memo: "rent" },
+      warnings: [],
+    });
+
+    queue.approve(1);
+    await expect(decision).resolves.toBeUndefined();
+    expect(queue.getPending()).toEqual([]);
+    expect(() => queue.approve(1)).toThrow("No pending request 1");
+  });
+
+  it("rejects refused, unanswered and unhandled requests as USER_REJECTED", async () => {
+    const unhandled = new ApprovalQueue();
+    await expect(unhandled.request(request(1))).rejects.toThrow(userRejected);
+
+    const queue = new ApprovalQueue({ timeoutMs: 20 });
+    queue.onApprovalRequired((pending) => {
+      if (pending.id === 2) queue.reject(2, "Not today");
+    });
+
+    await expect(queue.request(request(2))).rejects.toThrow(
+      expect.objectContaining({ code: ERROR_CODES.USER_REJECTED, message: "Not today" })
+    );
+    await expect(queue.request(request(3))).rejects.toThrow(
+      expect.objectContaining({ code: ERROR_CODES.USER_REJECTED, message: "Request timed out" })
+    );
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("auto-approves read-only methods configured by policy", async () => {
+    const queue = new ApprovalQueue({ autoApprove: ["stx_getAddresses", "stx_signMessage"] });
+
+    await expect(queue.request(request(1, "stx_getAddresses", {}))).resolves.toBeUndefined();
+    await expect(queue.request(request(2, "stx_signMessage", {}))).resolves.toBeUndefined();
+    await expect(queue.request(request(3))).rejects.toThrow(userRejected);
+  });
+
+  it("summarizes contract calls and transactions for the prompt", async () => {
+    const call = summarizeRequest("stx_callContract", {
+      contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault",
+      functionName: "update-reputation",
+      functionArgs: [cvToHex(Cl.principal(transfer.sender)), cvToHex(Cl.uint(90))],
+    });
+    expect(call).toMatchObject({
+      title: "Call ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault::update-reputation",
+      details: {
+        type: "ContractCall",
+        contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault",
+        function: "update-reputation",
+        arg1: transfer.sender,
+        arg2: "u90",
+        postConditionMode: "deny",
+      },
+      warnings: ["Calls the trust-vault admin function update-reputation"],
+    });
+
+    const transaction = await makeUnsignedSTXTokenTransfer({
+      recipient: transfer.recipient,
+      amount: 10n,
+      publicKey: publicKeyToHex(privateKeyToPublic(randomPrivateKey())),
+      nonce: 4,
+      fee: 300,
+      network: "testnet",
+    });
+    expect(summarizeRequest("stx_signTransaction", { transaction: transaction.serialize() }))
+      .toMatchObject({
+        title: "Sign a transaction",
+        details: {
+          type: "TokenTransfer",
+          to: transfer.recipient,
+          amount: "10 uSTX",
+          nonce: "4",
+          fee: "300 uSTX",
+          postConditionMode: "deny",
+        },
+        warnings: [],
+      });
+
+    // Undecodable parameters are still shown so the user can reject them
+    expect(summarizeRequest("stx_signTransaction", { transaction: "zz" })).toEqual({
+      title: "stx_signTransaction",
+      details: { params: '{"transaction":"zz"}' },
+      warnings: [],
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  Cl,
+  ClarityType,
+  cvToHex,
+  deserializeTransaction,
+  hexToCV,
+  privateKeyToPublic,
+  publicKeyToAddress,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import { BatchCredentialIssuer, parseCredentialRows } from "../src/batch-issuance";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const address2 = accounts.get("wallet_2")!;
+
+const privateKey = randomPrivateKey();
+const issuer = publicKeyToAddress(privateKeyToPublic(privateKey), "testnet");
+
+// Stacks API stand-in that executes broadcast calls on simnet as the issuer
+function simnetApi() {
+  const transactions = new Map<string, { result: string; height: number }>();
+  const state = { broadcasts: 0, failBroadcast: 0, badNonce: 0, loseResponse: 0, apiErrors: 0 };
+
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input.toString());
+    const path = url.pathname;
+
+    if (path === "/v2/info") {
+      return Response.json({ stacks_tip_height: simnet.blockHeight });
+    }
+    if (path.endsWith("/nonces")) {
+      return Response.json({ possible_next_nonce: transactions.size });
+    }
+    if (path === "/v2/fees/transaction") {
+      return Response.json({ estimations: [1, 2, 3].map((fee) => ({ fee, fee_rate: 1 })) });
+    }
+    if (path === "/v2/transactions") {
+      if (++state.broadcasts === state.failBroadcast) throw new Error("connection reset");
+      const transaction = deserializeTransaction(JSON.parse(init!.body as string).tx);
+      // Another wallet used the nonce, or the transaction itself already went through
+      if (state.broadcasts === state.badNonce || transactions.has(transaction.txid())) {
+        return Response.json(
+          { error: "transaction rejected", reason: "BadNonce", txid: transaction.txid() },
+          { status: 400 }
+        );
+      }
+      const payload = transaction.payload as any;
+      const { result } = simnet.callPublicFn(
+        "trust-vault",
+        payload.functionName.content,
+        payload.functionArgs,
+        issuer
+      );
+      transactions.set(transaction.txid(), {
+        result: cvToHex(result),
+        height: simnet.blockHeight,
+      });
+      if (state.broadcasts === state.loseResponse) throw new Error("connection reset");
+      return new Response(JSON.stringify(transaction.txid()));
+    }
+    if (path.startsWith("/extended/v1/tx/0x") && state.apiErrors > 0) {
+      state.apiErrors--;
+      return new Response("unavailable", { status: 503 });
+    }
+    if (path.startsWith("/extended/v1/tx/0x")) {
+      const tx = transactions.get(path.slice("/extended/v1/tx/0x".length));
+      if (!tx) return new Response("not found", { status: 404 });
+      const ok = hexToCV(tx.result).type === ClarityType.ResponseOk;
+      return Response.json({
+        tx_status: ok ? "success" : "abort_by_response",
+        block_height: tx.height,
+        is_unanchored: false,
+        canonical: true,
+        index_block_hash: "0x" + tx.height.toString(16).padStart(64, "0"),
+        tx_result: { hex: tx.result, repr: "" },
+      });
+    }
+    if (path.endsWith("/credential-nonce")) {
+      return Response.json({
+        data: cvToHex(simnet.getDataVar("trust-vault", "credential-nonce")),
+      });
+    }
+    if (path.endsWith("/credentials")) {
+      const key = hexToCV(JSON.parse(init!.body as string));
+      const entry = simnet.getMapEntry("trust-vault", "credentials", key);
+      return Response.json({ data: cvToHex(entry) });
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+
+  return { fetchFn, state };
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "batch-issuance-"));
+  for (const [address, fill] of [[issuer, 1], [address2, 2]] as const) {
+    simnet.callPublicFn(
+      "trust-vault",
+      "register-identity",
+      [Cl.buffer(new Uint8Array(32).fill(fill)), Cl.none()],
+      address
+    );
+  }
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function createIssuer(fetchFn: typeof fetch) {
+  return new BatchCredentialIssuer({
+    privateKey,
+    progressPath: join(directory, "progress.json"),
+    network: "testnet",
+    apiUrl: "http://localhost:3999",
+    contractAddress: `${deployer}.trust-vault`,
+    pollIntervalMs: 1,
+    fetch: fetchFn,
+  });
+}
+
+function rows() {
+  const expiration = simnet.blockHeight + 100;
+  return parseCredentialRows(
+    [
+      "subject,claimHash,claim,expiration,metadata",
+      `${address2},${"0a".repeat(32)},,${expiration},Degree`,
+      `${address2},,"{""course"": ""Clarity, advanced""}",${expiration},"Course, 2026"`,
+      `${address2},${"0b".repeat(32)},,1,Expired`,
+    ].join("\n"),
+    "csv"
+  );
+}
+
+describe("BatchCredentialIssuer", () => {
+  it("parses quoted CSV fields and claim documents", () => {
+    const [, course] = rows();
+
+    expect(course.claim).toEqual({ course: "Clarity, advanced" });
+    expect(course.metadata).toBe("Course, 2026");
+    expect(course.claimHash).toBeUndefined();
+  });
+
+  it("issues valid rows and reports their credential ids", async () => {
+    const { fetchFn } = simnetApi();
+
+    const progress = await createIssuer(fetchFn).run(rows());
+
+    expect(progress.rows[0]).toMatchObject({ status: "confirmed", credentialNonce: "0" });
+    expect(progress.rows[1]).toMatchObject({ status: "confirmed", credentialNonce: "1" });
+    expect([progress.rows[0].nonce, progress.rows[1].nonce]).toEqual(["0", "1"]);
+    expect(progress.rows[2]).toMatchObject({ status: "invalid" });
+    expect(progress.rows[2].error).toMatch(/Expiration/);
+
+    const saved = JSON.parse(readFileSync(join(directory, "progress.json"), "utf8"));
+    expect(saved).toEqual(progress);
+  });
+
+  it("resumes a crashed run without issuing any row twice", async () => {
+    const { fetchFn, state } = simnetApi();
+    const batch = rows();
+
+    state.failBroadcast = 2;
+    await expect(createIssuer(fetchFn).run(batch)).rejects.toThrow("connection reset");
+
+    const progress = await createIssuer(fetchFn).run(batch);
+
+    // Only the signed-but-unsent row is broadcast again
+    expect(state.broadcasts).toBe(3);
+    expect(progress.rows[1]).toMatchObject({ status: "confirmed", nonce: "1" });
+    expect(simnet.getDataVar("trust-vault", "credential-nonce")).toEqual(Cl.uint(2));
+  });
+
+  it("signs a row again when the node rejects its nonce", async () => {
+    const { fetchFn, state } = simnetApi();
+
+    state.badNonce = 1;
+    const progress = await createIssuer(fetchFn).run(rows());
+
+    expect(state.broadcasts).toBe(3);
+    expect(progress.rows[0]).toMatchObject({ status: "confirmed", credentialNonce: "0" });
+    expect(progress.rows[1]).toMatchObject({ status: "confirmed", credentialNonce: "1" });
+    expect(progress.rows[0].minCredentialNonce).toBe("0");
+  });
+
+  it("treats a rejected rebroadcast of a mined row as submitted", async () => {
+    const { fetchFn, state } = simnetApi();
+    const batch = rows();
+
+    state.loseResponse = 2;
+    await expect(createIssuer(fetchFn).run(batch)).rejects.toThrow("connection reset");
+
+    const progress = await createIssuer(fetchFn).run(batch);
+
+    expect(state.broadcasts).toBe(3);
+    expect(progress.rows[1]).toMatchObject({ status: "confirmed", nonce: "1" });
+    expect(simnet.getDataVar("trust-vault", "credential-nonce")).toEqual(Cl.uint(2));
+  });
+
+  it("keeps broadcast rows submitted through API errors and never re-signs them", async () => {
+    const { fetchFn, state } = simnetApi();
+    const batch = rows();
+
+    state.apiErrors = 1;
+    const first = await createIssuer(fetchFn).run(batch);
+    expect(first.rows[0]).toMatchObject({ status: "submitted", nonce: "0" });
+    expect(first.rows[0].error).toMatch(/503/);
+
+    const second = await createIssuer(fetchFn).run(batch);
+    expect(second.rows[0]).toMatchObject({ status: "confirmed", credentialNonce: "0" });
+    expect(second.rows[0].error).toBeUndefined();
+    expect(state.broadcasts).toBe(2);
+
+    // A failed row the node accepted may have been mined, so it cannot be edited and retried
+    const progressPath = join(directory, "progress.json");
+    const progress = JSON.parse(readFileSync(progressPath, "utf8"));
+    progress.rows[1].status = "failed";
+    writeFileSync(progressPath, JSON.stringify(progress));
+    const edited = [batch[0], { ...batch[1], metadata: "Course, 2027" }, batch[2]];
+    await expect(createIssuer(fetchFn).run(edited)).rejects.toThrow("Row 1 changed");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "node:fs";
+import { Cl } from "@stacks/transactions";
+import { parseErrorConstants, renderBindings } from "../src/bindings-generator";
+import { ERROR_CODES, registerIdentity, getIdentityStatusString } from "../src/generated/trust-vault";
+
+const accounts = simnet.getAccounts();
+const address1 = accounts.get("wallet_1")!;
+const contractId = `${simnet.deployer}.trust-vault`;
+
+describe("Generated contract bindings", () => {
+  it("are up to date with the contract interface", () => {
+    const abi = simnet.getContractsInterfaces().get(contractId)!;
+    const source = simnet.getContractSource(contractId)!;
+
+    const rendered = renderBindings({
+      contractName: "trust-vault",
+      abi: abi as any,
+      errorConstants: parseErrorConstants(source),
+    });
+
+    // Run `npm run generate:bindings` if this fails
+    expect(readFileSync("src/generated/trust-vault.ts", "utf8")).toBe(rendered);
+  });
+
+  it("encodes arguments accepted by the contract", () => {
+    const register = registerIdentity("0x" + "01".repeat(32), null);
+    const { result } = simnet.callPublicFn(
+      register.contractName,
+      register.functionName,
+      register.functionArgs,
+      address1
+    );
+    expect(result).toBeOk(Cl.bool(true));
+
+    const status = getIdentityStatusString(address1);
+    const { result: statusResult } = simnet.callReadOnlyFn(
+      status.contractName,
+      status.functionName,
+      status.functionArgs,
+      address1
+    );
+    expect(statusResult).toBeOk(Cl.stringAscii("ACTIVE"));
+  });
+
+  it("exposes error codes matching contract responses", () => {
+    const register = registerIdentity(new Uint8Array(32), null);
+    const { result } = simnet.callPublicFn(
+      register.contractName,
+      register.functionName,
+      register.functionArgs,
+      address1
+    );
+    expect(result).toBeErr(Cl.uint(ERROR_CODES.INVALID_INPUT));
+  });
+});
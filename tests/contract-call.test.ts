@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  ContractAbiCache,
+  decodeFunctionArgs,
+  parseContractId,
+  validateFunctionCall,
+} from "../src/contract-call";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const contractId = `${simnet.deployer}.trust-vault`;
+const contract = parseContractId(contractId);
+
+// Serves the simnet contract interface from /v2/contracts/interface
+function fakeApi() {
+  const requests: string[] = [];
+  const fetchFn = (async (input: string | URL | Request) => {
+    const url = input.toString();
+    requests.push(url);
+    if (url.endsWith(`/v2/contracts/interface/${simnet.deployer}/trust-vault`)) {
+      return Response.json(simnet.getContractsInterfaces().get(contractId));
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+function invalidParams(message: string) {
+  return expect.objectContaining({
+    code: ERROR_CODES.INVALID_PARAMS,
+    message: expect.stringContaining(message),
+  });
+}
+
+describe("stx_callContract arguments", () => {
+  it("parses contract identifiers and hex arguments", () => {
+    expect(contract).toEqual({ contractAddress: simnet.deployer, contractName: "trust-vault" });
+    expect(() => parseContractId("trust-vault")).toThrow(invalidParams("Invalid contract identifier"));
+    expect(() => parseContractId(`${simnet.deployer}.1vault`)).toThrow(invalidParams("Invalid"));
+
+    const args = decodeFunctionArgs([cvToHex(Cl.uint(5)), cvToHex(Cl.none()).slice(2)]);
+    expect(args).toEqual([Cl.uint(5), Cl.none()]);
+    expect(() => decodeFunctionArgs(["0xzz"])).toThrow(invalidParams("Argument 1"));
+  });
+
+  it("validates calls against a cached contract ABI", async () => {
+    const { fetchFn, requests } = fakeApi();
+    const abis = new ContractAbiCache({ apiUrl: "http://localhost:3999", fetch: fetchFn });
+
+    const abi = await abis.get("testnet", contract);
+    await abis.get("testnet", contract);
+    expect(requests).toHaveLength(1);
+
+    const register = [Cl.bufferFromHex("01".repeat(32)), Cl.none()];
+    expect(() => validateFunctionCall(abi, contract, "register-identity", register)).not.toThrow();
+    expect(() => validateFunctionCall(abi, contract, "register-identity", [Cl.uint(1), Cl.none()]))
+      .toThrow(invalidParams("expects argument 1"));
+    expect(() => validateFunctionCall(abi, contract, "register-identity", [])).toThrow(
+      invalidParams("argument(s)")
+    );
+    expect(() => validateFunctionCall(abi, contract, "steal-funds", [])).toThrow(
+      invalidParams("has no function steal-funds")
+    );
+    expect(() => validateFunctionCall(abi, contract, "get-identity", [Cl.principal(simnet.deployer)]))
+      .toThrow(invalidParams("read_only"));
+  });
+
+  it("reports unknown contracts as invalid params without caching them", async () => {
+    const { fetchFn, requests } = fakeApi();
+    const abis = new ContractAbiCache({ apiUrl: "http://localhost:3999", fetch: fetchFn });
+    const missing = parseContractId(`${simnet.deployer}.missing`);
+
+    await expect(abis.get("testnet", missing)).rejects.toThrow(invalidParams("not found on testnet"));
+    await expect(abis.get("testnet", missing)).rejects.toThrow();
+    expect(requests).toHaveLength(2);
+  });
+});
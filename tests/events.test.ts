@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createConsoleLogger, TypedEventEmitter } from "../src/events";
+
+interface TestEvents {
+  ping: { count: number };
+  pong: { reply: string };
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  failures: Array<{ event: keyof TestEvents; error: unknown }> = [];
+
+  fire<E extends keyof TestEvents>(event: E, payload: TestEvents[E]) {
+    this.emit(event, payload);
+  }
+
+  protected onListenerError(event: keyof TestEvents, error: unknown): void {
+    this.failures.push({ event, error });
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("TypedEventEmitter", () => {
+  it("delivers events to subscribers until they unsubscribe", () => {
+    const emitter = new TestEmitter();
+    const pings: number[] = [];
+    const onceReplies: string[] = [];
+
+    const unsubscribe = emitter.on("ping", ({ count }) => pings.push(count));
+    emitter.once("pong", ({ reply }) => onceReplies.push(reply));
+
+    emitter.fire("ping", { count: 1 });
+    emitter.fire("pong", { reply: "first" });
+    emitter.fire("pong", { reply: "second" });
+    unsubscribe();
+    emitter.fire("ping", { count: 2 });
+
+    expect(pings).toEqual([1]);
+    expect(onceReplies).toEqual(["first"]);
+  });
+
+  it("keeps calling listeners after one of them throws", () => {
+    const emitter = new TestEmitter();
+    const failure = new Error("listener broke");
+    const seen: number[] = [];
+
+    emitter.on("ping", () => {
+      throw failure;
+    });
+    emitter.on("ping", ({ count }) => seen.push(count));
+
+    expect(() => emitter.fire("ping", { count: 7 })).not.toThrow();
+    expect(seen).toEqual([7]);
+    expect(emitter.failures).toEqual([{ event: "ping", error: failure }]);
+  });
+});
+
+describe("createConsoleLogger", () => {
+  it("writes only messages at or above its level", () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const logger = createConsoleLogger("warn");
+    logger.debug("hidden");
+    logger.info("hidden");
+    logger.warn("Session rejected by policy", { origin: "https://evil.example" });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("Session rejected by policy", {
+      origin: "https://evil.example",
+    });
+
+    createConsoleLogger("silent").error("hidden");
+    createConsoleLogger().info("Paired successfully with URI");
+    expect(info).toHaveBeenCalledWith("Paired successfully with URI");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createHash } from "node:crypto";
+import { Cl } from "@stacks/transactions";
+import { TrustVaultClient } from "../src/client";
+import {
+  canonicalize,
+  hashClaim,
+  hashIdentityDocument,
+  verifyClaim,
+  verifyIdentityDocument,
+} from "../src/hashing";
+
+const accounts = simnet.getAccounts();
+const address1 = accounts.get("wallet_1")!;
+const address2 = accounts.get("wallet_2")!;
+
+const client = TrustVaultClient.fromSimnet(simnet);
+
+describe("canonical hashing", () => {
+  it("sorts keys and drops whitespace at every depth", () => {
+    expect(canonicalize({ b: [3, { d: true, c: null }], a: "x" })).toBe(
+      '{"a":"x","b":[3,{"c":null,"d":true}]}'
+    );
+  });
+
+  it("hashes documents independently of key order and Unicode form", () => {
+    const composed = { name: "Zoé", country: "FR" };
+    const decomposed = { country: "FR", name: "Zoé" };
+
+    expect(hashIdentityDocument(composed)).toBe(hashIdentityDocument(decomposed));
+    expect(hashIdentityDocument(composed)).toBe(
+      createHash("sha256").update('{"country":"FR","name":"Zoé"}').digest("hex")
+    );
+  });
+
+  it("rejects values without a JSON representation", () => {
+    expect(() => canonicalize({ amount: 10n })).toThrow(TypeError);
+    expect(() => canonicalize([Number.NaN])).toThrow(TypeError);
+    expect(() => canonicalize({ at: new Date(0) })).toThrow(TypeError);
+    expect(() => canonicalize({ "é": 1, "é": 2 })).toThrow("Duplicate key");
+  });
+
+  it("verifies documents against on-chain hashes", async () => {
+    const identity = { name: "Ada", did: "did:stacks:ada" };
+    const claim = { degree: "BSc", year: 2024 };
+
+    simnet.callPublicFn("trust-vault", "register-identity",
+      [Cl.bufferFromHex(hashIdentityDocument(identity)), Cl.none()], address1);
+    simnet.callPublicFn("trust-vault", "register-identity",
+      [Cl.buffer(new Uint8Array(32).fill(2)), Cl.none()], address2);
+    simnet.callPublicFn(
+      "trust-vault",
+      "issue-credential",
+      [
+        Cl.principal(address2),
+        Cl.bufferFromHex(hashClaim(claim)),
+        Cl.uint(simnet.blockHeight + 100),
+        Cl.stringUtf8("Degree"),
+      ],
+      address1
+    );
+
+    const reordered = { did: "did:stacks:ada", name: "Ada" };
+    expect(await verifyIdentityDocument(client, address1, reordered)).toBe(true);
+    expect(await verifyIdentityDocument(client, address1, { ...identity, name: "Eve" }))
+      .toBe(false);
+    expect(await verifyIdentityDocument(client, address2, identity)).toBe(false);
+
+    expect(await verifyClaim(client, address1, 0, { year: 2024, degree: "BSc" })).toBe(true);
+    expect(await verifyClaim(client, address1, 0, { ...claim, year: 2025 })).toBe(false);
+    expect(await verifyClaim(client, address1, 1, claim)).toBe(false);
+  });
+});
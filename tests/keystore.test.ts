@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomPrivateKey, signMessageHashRsv } from "@stacks/transactions";
+import { getAccountAddress } from "../src/accounts";
+import { Keystore } from "../src/keystore";
+
+// Deployer from settings/Devnet.toml
+const mnemonic =
+  "twice kind fence tip hidden tilt action fragile skin nothing glory cousin green tomorrow spring wrist shed math olympic multiply hip blue scout claw";
+const messageHash = "ab".repeat(32);
+// Cheap scrypt parameters so the tests stay fast
+const scrypt = { N: 2 ** 10, r: 8, p: 1 };
+
+let directory: string;
+let path: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "keystore-"));
+  path = join(directory, "keystore.json");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("Keystore", () => {
+  it("stores a mnemonic encrypted and signs only once unlocked", async () => {
+    await Keystore.create(path, { mnemonic }, "correct horse", { accountCount: 2, scrypt });
+
+    const contents = readFileSync(path, "utf8");
+    expect(contents).not.toContain("twice kind fence");
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    const keystore = Keystore.load(path);
+    expect(keystore.isLocked()).toBe(true);
+
+    // Accounts are listed without the password
+    const accounts = await keystore.getAccounts();
+    expect(accounts.map((account) => account.index)).toEqual([0, 1]);
+    expect(getAccountAddress(accounts[0], "testnet")).toBe("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM");
+
+    const signer = keystore.getSigner(1);
+    expect(await signer.getPublicKey()).toBe(accounts[1].publicKey);
+    await expect(signer.signMessageHash(messageHash)).rejects.toThrow("Keystore is locked");
+
+    await expect(keystore.unlock("wrong horse")).rejects.toThrow("Incorrect keystore password");
+    await keystore.unlock("correct horse");
+    expect(await signer.signMessageHash(messageHash)).toMatch(/^[0-9a-f]{130}$/);
+
+    keystore.lock();
+    await expect(signer.signMessageHash(messageHash)).rejects.toThrow("Keystore is locked");
+  });
+
+  it("changes the password and exports the stored key", async () => {
+    const privateKey = randomPrivateKey();
+    const keystore = await Keystore.create(path, { privateKey }, "old password", { scrypt });
+    expect(keystore.isLocked()).toBe(false);
+    expect(() => keystore.getSigner(1)).toThrow("No account 1");
+
+    await expect(keystore.changePassword("wrong", "new password")).rejects.toThrow("Incorrect");
+    await keystore.changePassword("old password", "new password");
+
+    const reloaded = Keystore.load(path);
+    await expect(reloaded.unlock("old password")).rejects.toThrow("Incorrect");
+    expect(await reloaded.export("new password")).toEqual({ privateKey });
+
+    await reloaded.unlock("new password");
+    expect(await reloaded.getSigner().signMessageHash(messageHash)).toBe(
+      signMessageHashRsv({ messageHash, privateKey })
+    );
+
+    await expect(Keystore.create(path, { privateKey: "00" }, "pw", { scrypt })).rejects.toThrow(
+      "Invalid private key"
+    );
+  });
+
+  it("locks after an idle timeout that signing restarts", async () => {
+    vi.useFakeTimers();
+    await Keystore.create(path, { privateKey: randomPrivateKey() }, "password", { scrypt });
+    const keystore = Keystore.load(path, { autoLockMs: 1000 });
+    await keystore.unlock("password");
+    const signer = keystore.getSigner();
+
+    vi.advanceTimersByTime(800);
+    await signer.signMessageHash(messageHash);
+    vi.advanceTimersByTime(800);
+    expect(keystore.isLocked()).toBe(false);
+
+    vi.advanceTimersByTime(200);
+    expect(keystore.isLocked()).toBe(true);
+  });
+
+  it("detects public keys swapped in the clear-text header", async () => {
+    await Keystore.create(path, { mnemonic }, "password", { accountCount: 2, scrypt });
+
+    const file = JSON.parse(readFileSync(path, "utf8"));
+    file.accounts[0].publicKey = file.accounts[1].publicKey;
+    writeFileSync(path, JSON.stringify(file));
+
+    await expect(Keystore.load(path).unlock("password")).rejects.toThrow("corrupted keystore");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { privateKeyToPublic, publicKeyToAddress, randomPrivateKey } from "@stacks/transactions";
+import {
+  encodeStacksMessage,
+  signStacksMessage,
+  verifyMessageSignature,
+} from "../src/message-signing";
+import { LocalKeySigner } from "../src/signer";
+
+const privateKey = randomPrivateKey();
+const signer = new LocalKeySigner(privateKey);
+const publicKey = privateKeyToPublic(privateKey) as string;
+const testnetAddress = publicKeyToAddress(publicKey, "testnet");
+const mainnetAddress = publicKeyToAddress(publicKey, "mainnet");
+
+describe("Stacks signed messages", () => {
+  it("prefixes messages with their varint byte length", () => {
+    const prefix = Buffer.from("\x17Stacks Signed Message:\n");
+
+    expect(Buffer.from(encodeStacksMessage("hé"))).toEqual(
+      Buffer.concat([prefix, Buffer.from([3]), Buffer.from("hé")])
+    );
+    const long = Buffer.from(encodeStacksMessage("a".repeat(300)));
+    expect(long.subarray(prefix.length, prefix.length + 3)).toEqual(Buffer.from([0xfd, 0x2c, 0x01]));
+  });
+
+  it("signs login challenges that verify for the signer's addresses", async () => {
+    const challenge = "Sign in to Trust Vault\nNonce: 8f2c1e";
+
+    const { signature, publicKey: signedBy } = await signStacksMessage(signer, challenge);
+
+    expect(signedBy).toBe(publicKey);
+    expect(signature).toHaveLength(130);
+    expect(verifyMessageSignature(challenge, signature, testnetAddress)).toBe(true);
+    expect(verifyMessageSignature(challenge, `0x${signature}`, mainnetAddress)).toBe(true);
+  });
+
+  it("rejects signatures from other keys or over other messages", async () => {
+    const { signature } = await signStacksMessage(signer, "challenge-1");
+    const other = publicKeyToAddress(privateKeyToPublic(randomPrivateKey()), "testnet");
+
+    expect(verifyMessageSignature("challenge-2", signature, testnetAddress)).toBe(false);
+    expect(verifyMessageSignature("challenge-1", signature, other)).toBe(false);
+    expect(verifyMessageSignature("challenge-1", "00".repeat(65), testnetAddress)).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileNonceStore, NonceManager } from "../src/nonce-manager";
+
+const ADDRESS = "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG";
+
+// Stand-in for /extended/v1/address/{address}/nonces with mutable account state
+function fakeApi() {
+  const account = {
+    last_executed_tx_nonce: null as number | null,
+    last_mempool_tx_nonce: null as number | null,
+    possible_next_nonce: 0,
+    detected_missing_nonces: [] as number[],
+    detected_mempool_nonces: [] as number[],
+  };
+  let requests = 0;
+  const fetchFn = (async () => {
+    requests++;
+    return Response.json(account);
+  }) as unknown as typeof fetch;
+  return { account, fetchFn, requests: () => requests };
+}
+
+let directory: string | undefined;
+
+afterEach(() => {
+  if (directory) rmSync(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+describe("NonceManager", () => {
+  it("hands out distinct sequential nonces to concurrent callers", async () => {
+    const { account, fetchFn, requests } = fakeApi();
+    account.possible_next_nonce = 4;
+    const manager = new NonceManager({ fetch: fetchFn });
+
+    const nonces = await Promise.all([1, 2, 3, 4, 5].map(() => manager.reserve(ADDRESS)));
+
+    expect(nonces).toEqual([4n, 5n, 6n, 7n, 8n]);
+    expect(requests()).toBe(1);
+  });
+
+  it("reuses released nonces before new ones", async () => {
+    const { fetchFn } = fakeApi();
+    const manager = new NonceManager({ fetch: fetchFn });
+
+    const first = await manager.reserve(ADDRESS);
+    const second = await manager.reserve(ADDRESS);
+    await manager.confirm(ADDRESS, second, "0xabc");
+    await manager.release(ADDRESS, first);
+
+    expect(await manager.peek(ADDRESS)).toBe(0n);
+    expect(await manager.reserve(ADDRESS)).toBe(0n);
+    expect(await manager.reserve(ADDRESS)).toBe(2n);
+    await expect(manager.confirm(ADDRESS, 9n, "0xdef")).rejects.toThrow("not reserved");
+  });
+
+  it("re-syncs with the API when its state is stale or a nonce was rejected", async () => {
+    const { account, fetchFn, requests } = fakeApi();
+    const manager = new NonceManager({ fetch: fetchFn, syncIntervalMs: 60_000 });
+
+    expect(await manager.reserve(ADDRESS)).toBe(0n);
+    expect(await manager.reserve(ADDRESS)).toBe(1n);
+    expect(requests()).toBe(1);
+
+    // Another wallet sent nonces 1 to 4 from the same account
+    Object.assign(account, { last_mempool_tx_nonce: 4, possible_next_nonce: 5 });
+    await manager.invalidate(ADDRESS, 1n);
+    expect(await manager.reserve(ADDRESS)).toBe(5n);
+    expect(requests()).toBe(2);
+
+    const stale = new NonceManager({ fetch: fetchFn, syncIntervalMs: 0 });
+    await stale.reserve(ADDRESS);
+    await stale.reserve(ADDRESS);
+    expect(requests()).toBe(4);
+  });
+
+  it("asks the API of each account's network unless one API is configured", async () => {
+    const urls: string[] = [];
+    const fetchFn = (async (input: string | URL | Request) => {
+      urls.push(input.toString());
+      return Response.json({
+        last_executed_tx_nonce: null,
+        last_mempool_tx_nonce: null,
+        possible_next_nonce: 0,
+        detected_missing_nonces: [],
+      });
+    }) as typeof fetch;
+    const mainnetAddress = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+
+    await new NonceManager({ fetch: fetchFn }).reserve(ADDRESS);
+    await new NonceManager({ fetch: fetchFn }).reserve(mainnetAddress);
+    await new NonceManager({ fetch: fetchFn, apiUrl: "http://localhost:3999" }).reserve(ADDRESS);
+
+    expect(urls).toEqual([
+      `https://api.testnet.hiro.so/extended/v1/address/${ADDRESS}/nonces`,
+      `https://api.mainnet.hiro.so/extended/v1/address/${mainnetAddress}/nonces`,
+      `http://localhost:3999/extended/v1/address/${ADDRESS}/nonces`,
+    ]);
+  });
+
+  it("persists reservations across restarts", async () => {
+    directory = mkdtempSync(join(tmpdir(), "nonce-manager-"));
+    const store = new FileNonceStore(join(directory, "nonces.json"));
+    const { account, fetchFn } = fakeApi();
+
+    const before = new NonceManager({ fetch: fetchFn, store });
+    await before.reserve(ADDRESS);
+    await before.confirm(ADDRESS, 0n, "0xabc");
+    await before.reserve(ADDRESS);
+
+    // The API has not indexed either transaction yet
+    account.possible_next_nonce = 0;
+    const after = new NonceManager({ fetch: fetchFn, store });
+
+    expect(await after.reserve(ADDRESS)).toBe(2n);
+  });
+
+  it("forgets executed nonces and releases dropped transactions as gaps", async () => {
+    const { account, fetchFn } = fakeApi();
+    const manager = new NonceManager({ fetch: fetchFn, reservationTtlMs: 0 });
+
+    for (let i = 0; i < 4; i++) {
+      const nonce = await manager.reserve(ADDRESS);
+      await manager.confirm(ADDRESS, nonce, `0x0${i}`);
+    }
+
+    // Nonce 0 was mined, 1 was dropped, 2 and 3 wait in the mempool
+    Object.assign(account, {
+      last_executed_tx_nonce: 0,
+      last_mempool_tx_nonce: 3,
+      possible_next_nonce: 4,
+      detected_missing_nonces: [1],
+      detected_mempool_nonces: [2, 3],
+    });
+
+    const state = await manager.sync(ADDRESS);
+    expect(state.reservations.map((reservation) => reservation.nonce)).toEqual(["2", "3"]);
+    expect(await manager.findGaps(ADDRESS)).toEqual([1n]);
+
+    const sent: bigint[] = [];
+    const txids = await manager.fillGaps(ADDRESS, async (nonce) => {
+      sent.push(nonce);
+      return "0xfill";
+    });
+
+    expect(sent).toEqual([1n]);
+    expect(txids).toEqual(["0xfill"]);
+    expect(await manager.reserve(ADDRESS)).toBe(4n);
+  });
+
+  it("keeps a gap when filling it fails", async () => {
+    const { account, fetchFn } = fakeApi();
+    Object.assign(account, {
+      last_executed_tx_nonce: 0,
+      possible_next_nonce: 3,
+      detected_missing_nonces: [1],
+      detected_mempool_nonces: [2],
+    });
+    const manager = new NonceManager({ fetch: fetchFn });
+
+    await expect(
+      manager.fillGaps(ADDRESS, async () => {
+        throw new Error("broadcast rejected");
+      })
+    ).rejects.toThrow("broadcast rejected");
+    expect(await manager.findGaps(ADDRESS)).toEqual([1n]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import { validateRequestParams } from "../src/request-params";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const sender = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+
+function invalidParams(field: string, expected: string) {
+  return expect.objectContaining({
+    code: ERROR_CODES.INVALID_PARAMS,
+    data: { field, expected },
+  });
+}
+
+describe("Request parameter schemas", () => {
+  it("accept well-formed parameters and ignore unknown fields", () => {
+    expect(() => validateRequestParams("stx_getAddresses", undefined)).not.toThrow();
+    expect(() =>
+      validateRequestParams("stx_transferStx", {
+        sender,
+        recipient: sender,
+        amount: "1000",
+        memo: "rent",
+        network: "testnet",
+        extra: true,
+      })
+    ).not.toThrow();
+    expect(() =>
+      validateRequestParams("stx_callContract", {
+        contract: `${sender}.trust-vault`,
+        functionName: "verify-proof",
+        functionArgs: [cvToHex(Cl.uint(1))],
+        postConditionMode: "deny",
+      })
+    ).not.toThrow();
+    expect(() =>
+      validateRequestParams("stx_signStructuredMessage", {
+        message: { type: "uint", value: "1" },
+        domain: cvToHex(Cl.tuple({ name: Cl.stringAscii("app") })),
+      })
+    ).not.toThrow();
+  });
+
+  it("name the field that failed", () => {
+    expect(() => validateRequestParams("stx_transferStx", { sender, recipient: sender })).toThrow(
+      invalidParams("amount", "string")
+    );
+    expect(() =>
+      validateRequestParams("stx_transferStx", { sender, recipient: sender, amount: 1000 })
+    ).toThrow(invalidParams("amount", "string"));
+    expect(() =>
+      validateRequestParams("stx_transferStx", { sender, recipient: sender, amount: "1.5" })
+    ).toThrow(invalidParams("amount", "micro-STX integer string"));
+    expect(() =>
+      validateRequestParams("stx_signTransaction", { transaction: "00", broadcast: "yes" })
+    ).toThrow(invalidParams("broadcast", "boolean"));
+    expect(() =>
+      validateRequestParams("stx_signMessage", { address: sender, message: "hi", network: "x" })
+    ).toThrow(invalidParams("network", "one of mainnet, testnet, devnet"));
+    expect(() =>
+      validateRequestParams("stx_callContract", {
+        contract: `${sender}.trust-vault`,
+        functionName: "verify-proof",
+        functionArgs: [cvToHex(Cl.uint(1)), "0xzz"],
+      })
+    ).toThrow(invalidParams("functionArgs[1]", "hex string"));
+    expect(() => validateRequestParams("stx_signStructuredMessage", ["message"])).toThrow(
+      invalidParams("params", "object")
+    );
+  });
+
+  it("reject unknown methods as unsupported", () => {
+    expect(() => validateRequestParams("eth_sendTransaction", {})).toThrow(
+      expect.objectContaining({
+        code: ERROR_CODES.UNSUPPORTED_METHOD,
+        message: "Unsupported method: eth_sendTransaction",
+        data: { method: "eth_sendTransaction" },
+      })
+    );
+  });
+});
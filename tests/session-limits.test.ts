@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Pc } from "@stacks/transactions";
+import { FileUsageStore, SessionLimiter } from "../src/session-limits";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const limitExceeded = expect.objectContaining({ code: ERROR_CODES.LIMIT_EXCEEDED });
+const morning = Date.parse("2026-03-01T08:00:00Z");
+const scope = { topic: "topic-1", origin: "https://app.example.com" };
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "session-limits-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("SessionLimiter", () => {
+  it("limits requests per method and minute", async () => {
+    const limiter = new SessionLimiter({
+      default: { requestsPerMinute: { stx_signMessage: 2 } },
+    });
+
+    await limiter.checkRequest(scope, "stx_signMessage", morning);
+    await limiter.checkRequest(scope, "stx_signMessage", morning + 1000);
+    await expect(limiter.checkRequest(scope, "stx_signMessage", morning + 2000)).rejects.toThrow(
+      limitExceeded
+    );
+
+    // Other methods and other sessions have their own counters
+    await limiter.checkRequest(scope, "stx_getAddresses", morning + 2000);
+    await limiter.checkRequest({ topic: "topic-2" }, "stx_signMessage", morning + 2000);
+
+    // The first request leaves the window a minute later
+    await limiter.checkRequest(scope, "stx_signMessage", morning + 60_001);
+  });
+
+  it("keeps the daily spend across restarts and resets it the next day", async () => {
+    const path = join(directory, "usage.json");
+    const config = { origins: { [scope.origin]: { dailyMicroStx: "1000000" } } };
+
+    const limiter = new SessionLimiter(config, new FileUsageStore(path));
+    await limiter.reserveSpend(scope, 600_000n, morning);
+    // Reconnecting gives a new topic but the origin's budget is shared
+    const reconnected = { ...scope, topic: "topic-2" };
+    await expect(limiter.reserveSpend(reconnected, 500_000n, morning)).rejects.toThrow(
+      limitExceeded
+    );
+
+    // A transfer that was never broadcast gives its amount back
+    await limiter.reserveSpend(reconnected, 300_000n, morning);
+    await limiter.releaseSpend(reconnected, 300_000n, morning);
+
+    const restarted = new SessionLimiter(config, new FileUsageStore(path));
+    await restarted.reserveSpend(scope, 400_000n, morning);
+    await expect(restarted.reserveSpend(scope, 1n, morning)).rejects.toThrow(
+      "Transfer of 1 uSTX exceeds the daily limit: 1000000 of 1000000 uSTX spent today"
+    );
+
+    await restarted.reserveSpend(scope, 1_000_000n, morning + 24 * 60 * 60 * 1000);
+  });
+
+  it("counts the STX contract transactions may move from the sender", async () => {
+    const limiter = new SessionLimiter({ default: { dailyMicroStx: 1000 } });
+    const sender = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+    const other = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+    const postConditions = [
+      Pc.principal(sender).willSendLte(600).ustx(),
+      Pc.principal(other).willSendEq(5000).ustx(),
+      Pc.principal(sender).willSendEq(5).ft(`${other}.token`, "coin"),
+    ];
+
+    const reserved = await limiter.reserveContractSpend(scope, sender, "deny", postConditions);
+    expect(reserved).toBe(600n);
+    await expect(
+      limiter.reserveContractSpend(scope, sender, "deny", postConditions)
+    ).rejects.toThrow(limitExceeded);
+
+    // Nothing bounds what the contract moves in allow mode or under "at least" conditions
+    await expect(limiter.reserveContractSpend(scope, sender, "allow", [])).rejects.toThrow(
+      limitExceeded
+    );
+    const atLeast = [Pc.principal(sender).willSendGte(1).ustx()];
+    await expect(limiter.reserveContractSpend(scope, sender, "deny", atLeast)).rejects.toThrow(
+      limitExceeded
+    );
+
+    // Conditions on the origin principal bind the sender
+    const origin = [Pc.origin().willSendLte(5000000n).ustx()];
+    await expect(limiter.reserveContractSpend(scope, sender, "deny", origin)).rejects.toThrow(
+      limitExceeded
+    );
+    const originAtLeast = [Pc.origin().willSendGte(1).ustx()];
+    await expect(
+      limiter.reserveContractSpend(scope, sender, "deny", originAtLeast)
+    ).rejects.toThrow(limitExceeded);
+    const fresh = new SessionLimiter({ default: { dailyMicroStx: 1000 } });
+    const originLte = [Pc.origin().willSendLte(300).ustx()];
+    expect(await fresh.reserveContractSpend(scope, sender, "deny", originLte)).toBe(300n);
+
+    // Without a daily limit nothing is counted or refused
+    expect(await new SessionLimiter().reserveContractSpend(scope, sender, "allow", [])).toBe(0n);
+  });
+
+  it("applies session limits over origin limits over the default", async () => {
+    const path = join(directory, "limits.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        default: { maxFee: 1000 },
+        origins: { [scope.origin]: { maxFee: 5000 } },
+        sessions: { "topic-3": { maxFee: 100 } },
+      })
+    );
+    const limiter = SessionLimiter.fromFile(path);
+
+    expect(() => limiter.checkFee({ topic: "topic-9" }, 2000n)).toThrow(limitExceeded);
+    expect(() => limiter.checkFee(scope, 2000n)).not.toThrow();
+    expect(() => limiter.checkFee({ ...scope, topic: "topic-3" }, 200n)).toThrow(
+      "Fee of 200 uSTX exceeds the limit of 100 uSTX"
+    );
+
+    expect(() => new SessionLimiter({ default: { dailyMicroStx: "-5" } })).toThrow(
+      "Invalid dailyMicroStx limit: -5"
+    );
+  });
+});
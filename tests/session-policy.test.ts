@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SessionPolicy, SessionProposalParams } from "../src/session-policy";
+
+function proposal(
+  stacks: { chains?: string[]; methods?: string[]; events?: string[] },
+  optional: { chains?: string[]; methods?: string[]; events?: string[] } = {},
+  url = "https://app.example.com/connect"
+): SessionProposalParams {
+  return {
+    requiredNamespaces: { stacks },
+    optionalNamespaces: { stacks: optional },
+    proposer: { metadata: { url } },
+  };
+}
+
+function rejection(reason: string, message?: string) {
+  return expect.objectContaining({
+    reason,
+    ...(message && { message: expect.stringContaining(message) }),
+  });
+}
+
+describe("SessionPolicy", () => {
+  it("grants the supported part of required and optional namespaces", () => {
+    const grant = new SessionPolicy().evaluate(
+      proposal(
+        { chains: ["stacks:mainnet"], methods: ["stx_getAddresses"], events: [] },
+        {
+          chains: ["stacks:testnet", "stacks:regtest"],
+          methods: ["stx_signMessage", "eth_sign", "stx_getAddresses"],
+          events: ["accountsChanged", "somethingElse"],
+        }
+      )
+    );
+
+    expect(grant).toEqual({
+      chains: ["stacks:mainnet", "stacks:testnet"],
+      methods: ["stx_getAddresses", "stx_signMessage"],
+      events: ["accountsChanged"],
+    });
+  });
+
+  it("rejects unsupported requirements with SDK error reasons", () => {
+    const policy = new SessionPolicy({ methods: ["stx_getAddresses", "stx_signMessage"] });
+
+    expect(() => policy.evaluate(proposal({ chains: ["stacks:regtest"] }))).toThrow(
+      rejection("UNSUPPORTED_CHAINS", "stacks:regtest")
+    );
+    expect(() =>
+      policy.evaluate(proposal({ chains: ["stacks:mainnet"], methods: ["stx_transferStx"] }))
+    ).toThrow(rejection("UNSUPPORTED_METHODS", "stx_transferStx"));
+    expect(() =>
+      policy.evaluate(proposal({ chains: ["stacks:mainnet"], events: ["blockMined"] }))
+    ).toThrow(rejection("UNSUPPORTED_EVENTS"));
+    expect(() =>
+      policy.evaluate({ requiredNamespaces: { eip155: { chains: ["eip155:1"] } } })
+    ).toThrow(rejection("UNSUPPORTED_NAMESPACE_KEY", "eip155"));
+    expect(() => policy.evaluate({})).toThrow(rejection("UNSUPPORTED_NAMESPACE_KEY"));
+    expect(() => policy.evaluate(proposal({}, { chains: ["eip155:1"] }))).toThrow(
+      rejection("UNSUPPORTED_CHAINS")
+    );
+  });
+
+  it("enforces origin allow and deny lists", () => {
+    const policy = new SessionPolicy({
+      allowedOrigins: ["https://*.example.com", "https://trustvault.stacks.io"],
+      deniedOrigins: ["https://evil.example.com"],
+    });
+    const request = proposal({ chains: ["stacks:mainnet"] });
+
+    expect(policy.isOriginAllowed("https://app.example.com")).toBe(true);
+    expect(policy.isOriginAllowed("https://trustvault.stacks.io")).toBe(true);
+    expect(policy.isOriginAllowed("https://example.com.attacker.io")).toBe(false);
+    expect(policy.isOriginAllowed("http://app.example.com")).toBe(false);
+    expect(policy.isOriginAllowed(null)).toBe(false);
+    expect(() => policy.evaluate(request, "https://evil.example.com")).toThrow(
+      rejection("USER_REJECTED", "https://evil.example.com")
+    );
+
+    // The metadata URL is only a fallback for the verified origin
+    expect(policy.evaluate(request).chains).toEqual(["stacks:mainnet"]);
+    expect(() => policy.evaluate(request, "https://other.io")).toThrow(rejection("USER_REJECTED"));
+  });
+
+  it("loads policies from a JSON file", () => {
+    const directory = mkdtempSync(join(tmpdir(), "session-policy-"));
+    try {
+      const path = join(directory, "policy.json");
+      const config = { chains: ["stacks:testnet"], deniedOrigins: ["https://x.io"] };
+      writeFileSync(path, JSON.stringify(config));
+      const policy = SessionPolicy.fromFile(path);
+
+      expect(policy.isOriginAllowed("https://x.io")).toBe(false);
+      expect(() => policy.evaluate(proposal({ chains: ["stacks:mainnet"] }))).toThrow(
+        rejection("UNSUPPORTED_CHAINS")
+      );
+
+      writeFileSync(path, JSON.stringify({ methods: ["eth_sign"] }));
+      expect(() => SessionPolicy.fromFile(path)).toThrow("unsupported chains or methods: eth_sign");
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileSessionStore,
+  MAX_REQUEST_HISTORY,
+  MemorySessionStore,
+  StoredSession,
+  pruneExpiredSessions,
+  recordSessionRequest,
+} from "../src/session-store";
+
+const now = Date.parse("2026-01-01T00:00:00Z");
+
+function session(topic: string, expiry: number): StoredSession {
+  return {
+    topic,
+    expiry,
+    dapp: { name: "Demo", description: "", url: "https://app.example.com", icons: [] },
+    origin: "https://app.example.com",
+    accounts: [{ index: 0, publicKey: "02".padEnd(66, "a") }],
+    grant: { chains: ["stacks:testnet"], methods: ["stx_getAddresses"], events: [] },
+    requests: [],
+  };
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "session-store-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("Session stores", () => {
+  it("persist session state to a file that a new store restores", async () => {
+    const path = join(directory, "sessions.json");
+    await new FileSessionStore(path).save(session("topic-1", now / 1000 + 3600));
+
+    const restored = new FileSessionStore(path);
+    expect(await restored.load("topic-1")).toEqual(session("topic-1", now / 1000 + 3600));
+    expect(await restored.load("topic-2")).toBeNull();
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+
+    await restored.delete("topic-1");
+    expect(await new FileSessionStore(path).loadAll()).toEqual([]);
+  });
+
+  it("prune sessions whose expiry has passed", async () => {
+    const store = new MemorySessionStore();
+    await store.save(session("expired", now / 1000 - 1));
+    await store.save(session("expiring-now", now / 1000));
+    await store.save(session("active", now / 1000 + 60));
+
+    expect(await pruneExpiredSessions(store, now)).toEqual(["expired", "expiring-now"]);
+    expect((await store.loadAll()).map((stored) => stored.topic)).toEqual(["active"]);
+  });
+
+  it("keep a bounded request history per session", async () => {
+    const store = new MemorySessionStore();
+    await store.save(session("topic-1", now / 1000 + 60));
+
+    for (let id = 1; id <= MAX_REQUEST_HISTORY + 5; id++) {
+      await recordSessionRequest(store, "topic-1", {
+        id,
+        method: "stx_signMessage",
+        status: id % 2 ? "completed" : "rejected",
+        at: now + id,
+      });
+    }
+    // Requests on unknown sessions are ignored
+    await recordSessionRequest(store, "unknown", {
+      id: 1,
+      method: "stx_getAddresses",
+      status: "completed",
+      at: now,
+    });
+
+    const { requests } = (await store.load("topic-1"))!;
+    expect(requests).toHaveLength(MAX_REQUEST_HISTORY);
+    expect(requests[0].id).toBe(6);
+    expect(requests.at(-1)).toMatchObject({ id: MAX_REQUEST_HISTORY + 5, status: "completed" });
+    expect(await store.load("unknown")).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  Cl,
+  deserializeTransaction,
+  makeUnsignedContractCall,
+  privateKeyToPublic,
+  publicKeyToHex,
+  randomPrivateKey,
+  TransactionSigner,
+} from "@stacks/transactions";
+import { LocalKeySigner, signSerializedTransaction } from "../src/signer";
+import { getNetworkFromChain } from "../src/types/walletconnect.types";
+
+const privateKey = randomPrivateKey();
+const signer = new LocalKeySigner(privateKey);
+
+async function unsignedCall(network: "mainnet" | "testnet", key = privateKey) {
+  const transaction = await makeUnsignedContractCall({
+    contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+    contractName: "trust-vault",
+    functionName: "verify-proof",
+    functionArgs: [Cl.buffer(new Uint8Array(32).fill(1))],
+    publicKey: publicKeyToHex(privateKeyToPublic(key)),
+    nonce: 3,
+    fee: 1000,
+    network,
+    validateWithAbi: false,
+  });
+  return transaction.serialize();
+}
+
+describe("LocalKeySigner", () => {
+  it("signs a serialized transaction that verifies against its origin", async () => {
+    const hex = await unsignedCall("testnet");
+
+    const { transaction, signature } = await signSerializedTransaction(signer, hex, "testnet");
+
+    const roundTrip = deserializeTransaction(transaction.serialize());
+    expect(() => roundTrip.verifyOrigin()).not.toThrow();
+    expect((roundTrip.auth.spendingCondition as any).signature.data).toBe(signature);
+
+    // Signatures are deterministic, so signing directly gives the same bytes
+    const direct = deserializeTransaction(hex);
+    new TransactionSigner(direct).signOrigin(privateKey);
+    expect(transaction.serialize()).toBe(direct.serialize());
+  });
+
+  it("accepts 0x-prefixed transactions and devnet sessions", async () => {
+    const hex = await unsignedCall("testnet");
+
+    const { transaction } = await signSerializedTransaction(signer, `0x${hex}`, "devnet");
+
+    expect(transaction.txid()).toHaveLength(64);
+  });
+
+  it("rejects transactions for another network", async () => {
+    const hex = await unsignedCall("testnet");
+
+    await expect(signSerializedTransaction(signer, hex, "mainnet")).rejects.toThrow(
+      "Transaction targets testnet but the session is on mainnet"
+    );
+  });
+
+  it("rejects transactions whose origin is another account", async () => {
+    const hex = await unsignedCall("testnet", randomPrivateKey());
+
+    await expect(signSerializedTransaction(signer, hex, "testnet")).rejects.toThrow(
+      "origin is not the signer's account"
+    );
+  });
+
+  it("maps WalletConnect chain ids to networks", () => {
+    expect(getNetworkFromChain("stacks:mainnet")).toBe("mainnet");
+    expect(getNetworkFromChain("stacks:1")).toBe("mainnet");
+    expect(getNetworkFromChain("stacks:testnet")).toBe("testnet");
+    expect(getNetworkFromChain("eip155:1")).toBeNull();
+  });
+});
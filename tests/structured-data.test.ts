@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  Cl,
+  cvToHex,
+  privateKeyToPublic,
+  publicKeyToAddress,
+  randomPrivateKey,
+  signStructuredData,
+} from "@stacks/transactions";
+import { LocalKeySigner } from "../src/signer";
+import {
+  domainToClarityValue,
+  getTrustVaultDomain,
+  parseStructuredDataDomain,
+  parseStructuredMessage,
+  signStructuredMessage,
+  verifyStructuredMessage,
+} from "../src/structured-data";
+
+const privateKey = randomPrivateKey();
+const signer = new LocalKeySigner(privateKey);
+const address = publicKeyToAddress(privateKeyToPublic(privateKey), "testnet");
+
+const presentation = Cl.tuple({
+  credential: Cl.uint(7),
+  subject: Cl.principal("ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM"),
+  purpose: Cl.stringAscii("age-check"),
+});
+
+function toJson(value: unknown) {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+describe("SIP-018 structured data", () => {
+  it("parses domains from fields, serialized tuples and JSON", () => {
+    const expected = { name: "trust-vault", version: "1.0.0", chainId: 2147483648n };
+    const tuple = domainToClarityValue(expected);
+
+    expect(parseStructuredDataDomain({ name: "trust-vault", version: "1.0.0", chainId: 2147483648 }))
+      .toEqual(expected);
+    expect(parseStructuredDataDomain(cvToHex(tuple))).toEqual(expected);
+    expect(parseStructuredDataDomain(toJson(tuple))).toEqual(expected);
+  });
+
+  it("rejects malformed domains", () => {
+    const noChainId = { name: "app", version: "1" } as any;
+    expect(() => parseStructuredDataDomain(noChainId)).toThrow("chain-id");
+    expect(() => parseStructuredDataDomain(cvToHex(Cl.uint(1)))).toThrow("tuple");
+    const extra = Cl.tuple({
+      name: Cl.stringAscii("app"),
+      version: Cl.stringAscii("1"),
+      "chain-id": Cl.uint(1),
+      salt: Cl.uint(0),
+    });
+    expect(() => parseStructuredDataDomain(cvToHex(extra))).toThrow("exactly");
+  });
+
+  it("rejects JSON descriptions whose values do not fit their type", () => {
+    expect(() => parseStructuredMessage({ type: "uint", value: [7] })).toThrow("integer");
+    expect(() => parseStructuredMessage({ type: "ascii", value: 7 })).toThrow("string");
+  });
+
+  it("produces the same signature as signStructuredData for hex and JSON messages", async () => {
+    const domain = getTrustVaultDomain("testnet");
+    const json = JSON.parse(toJson(presentation));
+
+    const hex = cvToHex(presentation);
+
+    const fromHex = await signStructuredMessage(signer, parseStructuredMessage(hex), domain);
+    const fromJson = await signStructuredMessage(signer, parseStructuredMessage(json), domain);
+
+    const reference = signStructuredData({
+      message: presentation,
+      domain: domainToClarityValue(domain),
+      privateKey,
+    });
+    expect(fromHex.signature).toBe(reference);
+    expect(fromJson.signature).toBe(reference);
+  });
+
+  it("verifies only under the expected domain and address", async () => {
+    const domain = getTrustVaultDomain("testnet");
+    const { signature } = await signStructuredMessage(signer, presentation, domain);
+    const other = publicKeyToAddress(privateKeyToPublic(randomPrivateKey()), "testnet");
+
+    expect(verifyStructuredMessage(presentation, signature, address, domain)).toBe(true);
+    expect(verifyStructuredMessage(presentation, signature, address, getTrustVaultDomain("mainnet")))
+      .toBe(false);
+    expect(verifyStructuredMessage(presentation, signature, address, { ...domain, name: "other-app" }))
+      .toBe(false);
+    expect(verifyStructuredMessage(presentation, signature, other, domain)).toBe(false);
+  });
+});
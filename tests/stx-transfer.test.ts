@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  FungibleConditionCode,
+  PostConditionMode,
+  deserializeTransaction,
+  privateKeyToPublic,
+  publicKeyToAddress,
+  publicKeyToHex,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import {
+  buildStxTransfer,
+  fetchSpendableBalance,
+  parseMicroStx,
+  validateMemo,
+  validateRecipient,
+} from "../src/stx-transfer";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const publicKey = publicKeyToHex(privateKeyToPublic(randomPrivateKey()));
+const sender = publicKeyToAddress(publicKey, "testnet");
+const recipient = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+// Minimal Stacks API stand-in for the balance and fee estimation endpoints
+function fakeApi(balance: Record<string, string>) {
+  const requests: string[] = [];
+  const fetchFn = (async (input: string | URL | Request) => {
+    const url = input.toString();
+    requests.push(url);
+    if (url.endsWith(`/extended/v1/address/${sender}/stx`)) {
+      return Response.json(balance);
+    }
+    if (url.endsWith("/v2/fees/transaction")) {
+      return Response.json({
+        estimations: [180, 250, 400].map((fee) => ({ fee, fee_rate: 1 })),
+      });
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+function invalidParams(message: string) {
+  return expect.objectContaining({
+    code: ERROR_CODES.INVALID_PARAMS,
+    message: expect.stringContaining(message),
+  });
+}
+
+describe("stx_transferStx", () => {
+  it("accepts only positive integer micro-STX amounts", () => {
+    expect(parseMicroStx("1000000")).toBe(1000000n);
+    expect(parseMicroStx("340282366920938463463374607431768211455")).toBe(2n ** 128n - 1n);
+
+    for (const amount of ["0", "-5", "1.5", "1e6", " 10", ""]) {
+      expect(() => parseMicroStx(amount)).toThrow(invalidParams("Amount"));
+    }
+    expect(() => parseMicroStx(100 as any)).toThrow(invalidParams("integer string"));
+  });
+
+  it("enforces the 34-byte memo limit and valid recipients", () => {
+    expect(() => validateMemo("a".repeat(34))).not.toThrow();
+    expect(() => validateMemo("a".repeat(35))).toThrow(invalidParams("35 bytes"));
+    // 17 two-byte characters fit, the 18th does not
+    expect(() => validateMemo("é".repeat(17))).not.toThrow();
+    expect(() => validateMemo("é".repeat(18))).toThrow(invalidParams("36 bytes"));
+
+    expect(() => validateRecipient(recipient)).not.toThrow();
+    expect(() => validateRecipient(`${recipient}.trust-vault`)).not.toThrow();
+    expect(() => validateRecipient("ST123")).toThrow(invalidParams("Invalid recipient"));
+  });
+
+  it("reports the unlocked balance net of pending transactions", async () => {
+    const { fetchFn } = fakeApi({ balance: "5000", locked: "1000", estimated_balance: "4500" });
+    expect(await fetchSpendableBalance(sender, { apiUrl: "http://localhost:3999", fetch: fetchFn }))
+      .toBe(3500n);
+
+    const locked = fakeApi({ balance: "5000", locked: "6000" });
+    expect(
+      await fetchSpendableBalance(sender, { apiUrl: "http://localhost:3999", fetch: locked.fetchFn })
+    ).toBe(0n);
+  });
+
+  it("builds transfers that can only send the requested amount", async () => {
+    const { fetchFn } = fakeApi({ balance: "0", locked: "0" });
+
+    const transaction = await buildStxTransfer({
+      sender,
+      recipient,
+      amount: 2500n,
+      memo: "invoice 42",
+      publicKey,
+      nonce: 7n,
+      network: "testnet",
+      apiUrl: "http://localhost:3999",
+      fetch: fetchFn,
+    });
+
+    const decoded = deserializeTransaction(transaction.serialize());
+    expect(decoded.auth.spendingCondition.nonce).toBe(7n);
+    expect(decoded.auth.spendingCondition.fee).toBe(250n);
+    expect(decoded.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(decoded.postConditions.values).toHaveLength(1);
+    expect(decoded.postConditions.values[0]).toMatchObject({
+      conditionCode: FungibleConditionCode.Equal,
+      amount: 2500n,
+    });
+    expect((decoded.payload as any).memo.content).toContain("invoice 42");
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  ClarityType,
+  PostConditionMode,
+  deserializeTransaction,
+  privateKeyToPublic,
+  publicKeyToHex,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import { TrustVaultTransactionBuilder } from "../src/transaction-builder";
+import { TrustVaultError } from "../src/errors";
+import { NonceManager } from "../src/nonce-manager";
+
+const publicKey = publicKeyToHex(privateKeyToPublic(randomPrivateKey()));
+
+// Minimal Stacks API stand-in for the nonce and fee estimation endpoints
+function fakeApi(nonce: number, fees: [number, number, number]) {
+  const requests: string[] = [];
+  const fetchFn = (async (input: string | URL | Request) => {
+    const url = input.toString();
+    requests.push(url);
+    if (url.includes("/nonces")) {
+      return Response.json({
+        last_executed_tx_nonce: nonce - 1,
+        last_mempool_tx_nonce: null,
+        possible_next_nonce: nonce,
+        detected_missing_nonces: [],
+      });
+    }
+    if (url.endsWith("/v2/info")) {
+      return Response.json({ stacks_tip_height: 100 });
+    }
+    if (url.endsWith("/v2/fees/transaction")) {
+      return Response.json({
+        estimations: fees.map((fee) => ({ fee, fee_rate: 1 })),
+      });
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+function createBuilder(fetchFn: typeof fetch, maxFee?: number) {
+  return new TrustVaultTransactionBuilder({
+    network: "testnet",
+    apiUrl: "http://localhost:3999",
+    contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault",
+    fetch: fetchFn,
+    maxFee,
+  });
+}
+
+describe("TrustVaultTransactionBuilder", () => {
+  it("builds an unsigned deny-mode contract call with fetched nonce and fee", async () => {
+    const { fetchFn } = fakeApi(7, [1000, 2000, 3000]);
+
+    const unsigned = await createBuilder(fetchFn).registerIdentity(
+      { identityHash: "01".repeat(32) },
+      { publicKey }
+    );
+
+    expect(unsigned.nonce).toBe(7n);
+    expect(unsigned.fee).toBe(2000n);
+    expect(unsigned.sender.startsWith("ST")).toBe(true);
+
+    const transaction = deserializeTransaction(unsigned.transaction);
+    expect(transaction.postConditionMode).toBe(PostConditionMode.Deny);
+    expect(transaction.postConditions.values).toHaveLength(0);
+    expect(transaction.auth.spendingCondition.nonce).toBe(7n);
+    expect(transaction.auth.spendingCondition.fee).toBe(2000n);
+
+    const payload = transaction.payload as any;
+    expect(payload.functionName.content).toBe("register-identity");
+    expect(payload.functionArgs[1].type).toBe(ClarityType.OptionalNone);
+  });
+
+  it("selects the fee tier and applies the fee cap", async () => {
+    const { fetchFn } = fakeApi(0, [1000, 2000, 3000]);
+
+    const low = await createBuilder(fetchFn).pauseContract({ publicKey, feeTier: "low" });
+    expect(low.fee).toBe(1000n);
+
+    const capped = await createBuilder(fetchFn, 2500).pauseContract({
+      publicKey,
+      feeTier: "high",
+    });
+    expect(capped.fee).toBe(2500n);
+  });
+
+  it("uses caller-supplied nonce and fee without calling the API", async () => {
+    const { fetchFn, requests } = fakeApi(0, [1, 2, 3]);
+
+    const unsigned = await createBuilder(fetchFn).revokeCredential(
+      { issuer: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG", nonce: 3 },
+      { publicKey, nonce: 12, fee: 500 }
+    );
+
+    expect(unsigned.nonce).toBe(12n);
+    expect(unsigned.fee).toBe(500n);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("rejects invalid arguments before fetching a nonce", async () => {
+    const { fetchFn, requests } = fakeApi(0, [1, 2, 3]);
+    const builder = createBuilder(fetchFn);
+
+    await expect(
+      builder.submitProof({ proofHash: "01".repeat(32), proofData: "ff" }, { publicKey })
+    ).rejects.toMatchObject({ code: 1011 });
+    expect(requests).toHaveLength(0);
+
+    await expect(
+      builder.issueCredential(
+        {
+          subject: "ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG",
+          claimHash: "01".repeat(32),
+          expiration: 101,
+          metadata: "",
+        },
+        { publicKey }
+      )
+    ).rejects.toThrow(TrustVaultError);
+    expect(requests).toEqual(["http://localhost:3999/v2/info"]);
+  });
+
+  it("defaults the contract and API to the chosen network", async () => {
+    const { fetchFn, requests } = fakeApi(3, [100, 200, 300]);
+    const builder = new TrustVaultTransactionBuilder({ network: "testnet", fetch: fetchFn });
+
+    expect(`${builder.contractAddress}.${builder.contractName}`).toBe(
+      "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault"
+    );
+    await builder.build("pause-contract", [], { publicKey });
+    expect(requests.every((url) => url.startsWith("https://api.testnet.hiro.so/"))).toBe(true);
+  });
+
+  it("leaves no reservation behind for builds that are never broadcast", async () => {
+    const { fetchFn } = fakeApi(7, [1000, 2000, 3000]);
+    const nonceManager = new NonceManager({ fetch: fetchFn });
+    const builder = new TrustVaultTransactionBuilder({
+      network: "testnet",
+      apiUrl: "http://localhost:3999",
+      contractAddress: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.trust-vault",
+      fetch: fetchFn,
+      nonceManager,
+    });
+
+    const abandoned = await builder.pauseContract({ publicKey });
+    const next = await builder.pauseContract({ publicKey });
+
+    expect([abandoned.nonce, next.nonce]).toEqual([7n, 7n]);
+    expect(await nonceManager.reserve(abandoned.sender)).toBe(7n);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  Cl,
+  cvToHex,
+  makeUnsignedContractCall,
+  Pc,
+  postConditionToHex,
+  privateKeyToPublic,
+  publicKeyToHex,
+  randomPrivateKey,
+} from "@stacks/transactions";
+import { summarizeContractCall, summarizeTransaction } from "../src/transaction-summary";
+
+const deployer = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const sender = "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5";
+
+describe("Transaction summaries", () => {
+  it("decode a contract call with its post-conditions and flag admin calls in allow mode", async () => {
+    const transaction = await makeUnsignedContractCall({
+      contractAddress: deployer,
+      contractName: "trust-vault",
+      functionName: "set-admin",
+      functionArgs: [Cl.principal(sender)],
+      publicKey: publicKeyToHex(privateKeyToPublic(randomPrivateKey())),
+      nonce: 12,
+      fee: 2500,
+      network: "testnet",
+      postConditionMode: "allow",
+      postConditions: [
+        Pc.principal(sender).willSendLte(100).ustx(),
+        Pc.principal(sender).willSendEq(5).ft(`${deployer}.token`, "coin"),
+        Pc.principal(`${deployer}.vault`)
+          .willNotSendAsset()
+          .nft(`${deployer}.badge::badge`, Cl.uint(1)),
+      ],
+      validateWithAbi: false,
+    });
+
+    expect(summarizeTransaction(transaction.serialize())).toEqual({
+      type: "ContractCall",
+      contract: `${deployer}.trust-vault`,
+      functionName: "set-admin",
+      args: [sender],
+      fee: "2500",
+      nonce: "12",
+      postConditionMode: "allow",
+      postConditions: [
+        `${sender} sends at most 100 uSTX`,
+        `${sender} sends exactly 5 ${deployer}.token::coin`,
+        `${deployer}.vault keeps ${deployer}.badge::badge u1`,
+      ],
+      warnings: [
+        "Calls the trust-vault admin function set-admin",
+        "Post-condition mode is allow: assets not covered by a post-condition can be moved",
+      ],
+    });
+  });
+
+  it("decode stx_callContract parameters before the wallet builds the transaction", () => {
+    const params = {
+      contract: `${deployer}.trust-vault`,
+      functionName: "issue-credential",
+      functionArgs: [cvToHex(Cl.principal(sender)), cvToHex(Cl.uint(7))],
+      postConditions: [postConditionToHex(Pc.principal(sender).willSendGte(1).ustx())],
+    };
+
+    const summary = summarizeContractCall(params);
+    expect(summary).toEqual({
+      type: "ContractCall",
+      contract: `${deployer}.trust-vault`,
+      functionName: "issue-credential",
+      args: [sender, "u7"],
+      postConditionMode: "deny",
+      postConditions: [`${sender} sends at least 1 uSTX`],
+      warnings: [],
+    });
+
+    // Admin function names only matter on the deployed trust-vault contract
+    const other = { ...params, contract: `${deployer}.other`, functionName: "set-admin" };
+    expect(summarizeContractCall(other).warnings).toEqual([]);
+    const copy = { ...params, contract: `${sender}.trust-vault`, functionName: "set-admin" };
+    expect(summarizeContractCall(copy).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  TransactionDroppedError,
+  TransactionStatusUpdate,
+  TransactionTimeoutError,
+  waitForTransaction,
+} from "../src/transaction-tracker";
+import { TrustVaultError } from "../src/errors";
+
+const TXID = "ab".repeat(32);
+
+let server: Server | undefined;
+
+// Mock Stacks API: each poll of the transaction serves the next scripted
+// state (the last one repeats), /v2/info serves the next tip height
+async function startApi(states: Array<object | null>, tipHeights: number[] = [10]) {
+  let txPolls = 0;
+  let infoPolls = 0;
+  server = createServer((req, res) => {
+    if (req.url === `/extended/v1/tx/0x${TXID}`) {
+      const state = states[Math.min(txPolls++, states.length - 1)];
+      res.writeHead(state ? 200 : 404, { "content-type": "application/json" });
+      res.end(JSON.stringify(state ?? { error: "not found" }));
+      return;
+    }
+    if (req.url === "/v2/info") {
+      const height = tipHeights[Math.min(infoPolls++, tipHeights.length - 1)];
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ stacks_tip_height: height }));
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+function mined(txStatus: string, result: string, extra: object = {}) {
+  return {
+    tx_id: `0x${TXID}`,
+    tx_status: txStatus,
+    block_height: 10,
+    is_unanchored: false,
+    canonical: true,
+    tx_result: { hex: result, repr: "" },
+    ...extra,
+  };
+}
+
+describe("waitForTransaction", () => {
+  it("reports each status and returns the result after enough confirmations", async () => {
+    const apiUrl = await startApi(
+      [
+        null,
+        { tx_id: `0x${TXID}`, tx_status: "pending" },
+        mined("success", cvToHex(Cl.ok(Cl.bool(true)))),
+      ],
+      [10, 11]
+    );
+    const updates: TransactionStatusUpdate[] = [];
+
+    const confirmed = await waitForTransaction(TXID, {
+      apiUrl,
+      confirmations: 2,
+      pollIntervalMs: 5,
+      onStatus: (update) => updates.push(update),
+    });
+
+    expect(confirmed).toEqual({
+      txid: `0x${TXID}`,
+      blockHeight: 10,
+      confirmations: 2,
+      result: Cl.bool(true),
+    });
+    expect(updates.map((update) => [update.status, update.confirmations])).toEqual([
+      ["pending", 0],
+      ["anchored", 1],
+      ["anchored", 2],
+    ]);
+  });
+
+  it("throws the contract error of an aborted transaction", async () => {
+    const apiUrl = await startApi([
+      mined("abort_by_response", cvToHex(Cl.error(Cl.uint(1001)))),
+    ]);
+
+    await expect(waitForTransaction(TXID, { apiUrl, pollIntervalMs: 5 })).rejects.toMatchObject({
+      code: 1001,
+      errorName: "ALREADY_REGISTERED",
+    });
+    await expect(waitForTransaction(TXID, { apiUrl, pollIntervalMs: 5 })).rejects.toThrow(
+      TrustVaultError
+    );
+  });
+
+  it("distinguishes replaced from dropped transactions", async () => {
+    let apiUrl = await startApi([{ tx_id: `0x${TXID}`, tx_status: "dropped_replace_by_fee" }]);
+    await expect(waitForTransaction(TXID, { apiUrl })).rejects.toMatchObject({
+      status: "replaced",
+    });
+
+    await new Promise((resolve) => server!.close(resolve));
+    apiUrl = await startApi([{ tx_id: `0x${TXID}`, tx_status: "dropped_stale_garbage_collect" }]);
+    await expect(waitForTransaction(TXID, { apiUrl })).rejects.toThrow(TransactionDroppedError);
+  });
+
+  it("reports microblock inclusion and times out without an anchor block", async () => {
+    const apiUrl = await startApi([
+      mined("success", cvToHex(Cl.ok(Cl.bool(true))), { is_unanchored: true }),
+    ]);
+    const updates: TransactionStatusUpdate[] = [];
+
+    const error = await waitForTransaction(TXID, {
+      apiUrl,
+      timeoutMs: 50,
+      pollIntervalMs: 10,
+      onStatus: (update) => updates.push(update),
+    }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect(error.lastStatus.status).toBe("microblock");
+    expect(updates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { TrustVaultClient } from "../src/client";
+import { TrustVaultError } from "../src/errors";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const address1 = accounts.get("wallet_1")!;
+const address2 = accounts.get("wallet_2")!;
+
+const client = TrustVaultClient.fromSimnet(simnet);
+
+function registerIdentities() {
+  simnet.callPublicFn("trust-vault", "register-identity",
+    [Cl.buffer(new Uint8Array(32).fill(1)), Cl.some(Cl.principal(address2))], address1);
+  simnet.callPublicFn("trust-vault", "register-identity",
+    [Cl.buffer(new Uint8Array(32).fill(2)), Cl.none()], address2);
+}
+
+function issueCredential(expiration: number) {
+  simnet.callPublicFn(
+    "trust-vault",
+    "issue-credential",
+    [
+      Cl.principal(address2),
+      Cl.buffer(new Uint8Array(32).fill(10)),
+      Cl.uint(expiration),
+      Cl.stringUtf8("Client credential"),
+    ],
+    address1
+  );
+}
+
+describe("TrustVaultClient", () => {
+  it("targets the simnet deployer", () => {
+    expect(client.contractAddress).toBe(deployer);
+    expect(client.contractName).toBe("trust-vault");
+  });
+
+  it("decodes a registered identity", async () => {
+    registerIdentities();
+
+    const identity = await client.getIdentity(address1);
+
+    expect(identity).toEqual({
+      hash: "01".repeat(32),
+      credentials: [],
+      reputationScore: 100n,
+      recoveryAddress: address2,
+      lastUpdated: expect.any(BigInt),
+      lastUpdatedTime: expect.any(BigInt),
+      status: "ACTIVE",
+    });
+  });
+
+  it("returns null for missing map entries", async () => {
+    expect(await client.getIdentity(address1)).toBeNull();
+    expect(await client.getCredential(address1, 0)).toBeNull();
+    expect(await client.getProof(new Uint8Array(32).fill(20))).toBeNull();
+  });
+
+  it("decodes an issued credential and its time info", async () => {
+    registerIdentities();
+    const expiration = simnet.blockHeight + 100;
+    issueCredential(expiration);
+
+    const credential = await client.getCredential(address1, 0n);
+    expect(credential).toMatchObject({
+      subject: address2,
+      claimHash: "0a".repeat(32),
+      expiration: BigInt(expiration),
+      revoked: false,
+      metadata: "Client credential",
+    });
+
+    const timeInfo = await client.getCredentialTimeInfo(address1, 0);
+    expect(timeInfo.issuedAt).toBe(credential!.issuedAt);
+    expect(timeInfo.expirationTime).toBe(credential!.expirationTime);
+    expect(timeInfo.isExpired).toBe(false);
+
+    expect(await client.verifyCredential(address1, 0)).toBe(true);
+    expect(await client.isCredentialExpired(address1, 0)).toBe(false);
+  });
+
+  it("decodes a submitted proof from a hex hash", async () => {
+    registerIdentities();
+    simnet.callPublicFn(
+      "trust-vault",
+      "submit-proof",
+      [Cl.buffer(new Uint8Array(32).fill(20)), Cl.buffer(new Uint8Array(64).fill(99))],
+      address1
+    );
+
+    const proof = await client.getProof("0x" + "14".repeat(32));
+
+    expect(proof).toMatchObject({
+      prover: address1,
+      verified: false,
+      proofData: "63".repeat(64),
+    });
+  });
+
+  it("returns identity status strings", async () => {
+    registerIdentities();
+
+    expect(await client.getIdentityStatusString(address2)).toBe("ACTIVE");
+  });
+
+  it("throws TrustVaultError for error responses", async () => {
+    await expect(client.verifyCredential(address1, 5)).rejects.toThrow(TrustVaultError);
+    await expect(client.verifyCredential(address1, 5)).rejects.toMatchObject({
+      code: 1004,
+      errorName: "INVALID_CREDENTIAL",
+    });
+    await expect(client.getIdentityStatusString(address1)).rejects.toThrow(
+      "Identity not registered"
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Cl, cvToHex } from "@stacks/transactions";
+import {
+  ContractAbortError,
+  TrustVaultError,
+  decodeReadOnlyResponse,
+  decodeTransactionResult,
+  runSimnetCall,
+  unwrapContractResult,
+} from "../src/errors";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const address1 = accounts.get("wallet_1")!;
+
+describe("TrustVault error decoding", () => {
+  it("decodes simnet error responses into TrustVaultError", () => {
+    const result = runSimnetCall(() =>
+      simnet.callPublicFn("trust-vault", "register-identity",
+        [Cl.buffer(new Uint8Array(32)), Cl.none()], address1)
+    );
+
+    expect(() => unwrapContractResult(result)).toThrow(TrustVaultError);
+    try {
+      unwrapContractResult(result);
+    } catch (error) {
+      expect(error).toMatchObject({
+        code: 1008,
+        errorName: "INVALID_INPUT",
+        message: "Invalid input parameters",
+      });
+    }
+  });
+
+  it("returns the ok value of successful responses", () => {
+    const result = runSimnetCall(() =>
+      simnet.callPublicFn("trust-vault", "pause-contract", [], deployer)
+    );
+
+    expect(unwrapContractResult(result)).toEqual(Cl.bool(true));
+  });
+
+  it("converts simnet runtime panics into ContractAbortError", () => {
+    // update-reputation unwraps the subject identity before checking it exists
+    const call = () =>
+      runSimnetCall(() =>
+        simnet.callPublicFn("trust-vault", "update-reputation",
+          [Cl.principal(address1), Cl.int(5)], deployer)
+      );
+
+    expect(call).toThrow(ContractAbortError);
+    expect(call).toThrow("Runtime error: UnwrapFailure");
+  });
+
+  it("decodes read-only API responses", () => {
+    const response = { okay: true, result: cvToHex(Cl.error(Cl.uint(1004))) };
+
+    expect(() => unwrapContractResult(decodeReadOnlyResponse(response))).toThrow(
+      "Invalid credential"
+    );
+    expect(() => decodeReadOnlyResponse({ okay: false, cause: "Unchecked(NoSuchContract)" }))
+      .toThrow(ContractAbortError);
+  });
+
+  it("decodes confirmed transaction results", () => {
+    expect(
+      decodeTransactionResult({
+        tx_status: "success",
+        tx_result: { hex: cvToHex(Cl.ok(Cl.bool(true))), repr: "(ok true)" },
+      })
+    ).toEqual(Cl.bool(true));
+
+    expect(() =>
+      decodeTransactionResult({
+        tx_status: "abort_by_response",
+        tx_result: { hex: cvToHex(Cl.error(Cl.uint(1012))), repr: "(err u1012)" },
+      })
+    ).toThrow(expect.objectContaining({ errorName: "CONTRACT_PAUSED" }));
+
+    expect(() =>
+      decodeTransactionResult({
+        tx_status: "abort_by_response",
+        tx_result: { hex: cvToHex(Cl.error(Cl.none())), repr: "(err none)" },
+      })
+    ).toThrow(expect.objectContaining({ reason: "runtime" }));
+
+    expect(() =>
+      decodeTransactionResult({
+        tx_status: "abort_by_post_condition",
+        tx_result: { hex: cvToHex(Cl.ok(Cl.bool(true))), repr: "(ok true)" },
+      })
+    ).toThrow(expect.objectContaining({ reason: "post_condition" }));
+  });
+
+  it("keeps non-TrustVault error values as ContractAbortError", () => {
+    expect(() => unwrapContractResult(Cl.error(Cl.uint(42)))).toThrow(ContractAbortError);
+  });
+});
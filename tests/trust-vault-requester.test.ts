@@ -0,0 +1,355 @@
+import { describe, expect, it } from "vitest";
+import {
+  deserializeTransaction,
+  privateKeyToPublic,
+  publicKeyToAddress,
+  publicKeyToHex,
+  randomPrivateKey,
+  StacksTransactionWire,
+} from "@stacks/transactions";
+import type { IWalletKit } from "@reown/walletkit";
+import { StacksWalletConnect, WalletConnectConfig } from "../src/walletconnect";
+import { TrustVaultRequester } from "../src/trust-vault-requester";
+import { getTransactionOrigin, LocalKeySigner } from "../src/signer";
+import { NonceManager } from "../src/nonce-manager";
+import { MemorySessionStore } from "../src/session-store";
+import { createConsoleLogger } from "../src/events";
+import { SessionLimiter } from "../src/session-limits";
+import { getAccountAddress, MnemonicAccountProvider } from "../src/accounts";
+import { ERROR_CODES } from "../src/types/walletconnect.types";
+
+const apiUrl = "http://localhost:3999";
+const contractId = `${simnet.deployer}.trust-vault`;
+const dapp = { name: "Demo", description: "", url: "https://app.example.com", icons: [] };
+
+// In-memory stand-in for the WalletConnect relay: the wallet side behaves like
+// WalletKit and the dApp side like SignClient
+type Settle = { resolve: (value: any) => void; reject: (reason: any) => void };
+
+class LocalRelay {
+  private listeners = new Map<string, (event: any) => void>();
+  private sessions: Record<string, any> = {};
+  private pending = new Map<number, Settle>();
+  private nextId = 1;
+
+  on(event: string, listener: (event: any) => void) {
+    this.listeners.set(event, listener);
+    return this;
+  }
+
+  async approveSession({ id, namespaces }: { id: number; namespaces: any }) {
+    const session = {
+      topic: `topic-${id}`,
+      expiry: Math.floor(Date.now() / 1000) + 3600,
+      namespaces,
+      peer: { metadata: dapp },
+    };
+    this.sessions[session.topic] = session;
+    this.settle(id, { result: session });
+    return session;
+  }
+
+  async rejectSession({ id, reason }: { id: number; reason: any }) {
+    this.settle(id, { error: reason });
+  }
+
+  async respondSessionRequest({ response }: { topic: string; response: any }) {
+    this.settle(response.id, response);
+  }
+
+  getActiveSessions() {
+    return this.sessions;
+  }
+
+  async connect({ requiredNamespaces }: { requiredNamespaces: any }) {
+    const id = this.nextId++;
+    return {
+      uri: `wc:${id}@2?relay-protocol=local`,
+      approval: () =>
+        this.dispatch(id, "session_proposal", {
+          id,
+          params: { id, requiredNamespaces, optionalNamespaces: {}, proposer: { metadata: dapp } },
+          verifyContext: { verified: { origin: dapp.url } },
+        }),
+    };
+  }
+
+  async request({ topic, chainId, request }: { topic: string; chainId: string; request: any }) {
+    const id = this.nextId++;
+    return this.dispatch(id, "session_request", { id, topic, params: { request, chainId } });
+  }
+
+  private dispatch(id: number, event: string, payload: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.listeners.get(event)?.(payload);
+    });
+  }
+
+  private settle(id: number, response: { result?: any; error?: any }) {
+    const pending = this.pending.get(id)!;
+    this.pending.delete(id);
+    if (response.error) pending.reject(response.error);
+    else pending.resolve(response.result);
+  }
+}
+
+// Stacks API stand-in for the endpoints the wallet uses to send a contract call
+function fakeApi() {
+  const broadcasts: StacksTransactionWire[] = [];
+  const fetchFn = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    if (url.endsWith("/nonces")) {
+      return Response.json({
+        last_executed_tx_nonce: 4,
+        last_mempool_tx_nonce: null,
+        possible_next_nonce: 5,
+        detected_missing_nonces: [],
+      });
+    }
+    if (url.endsWith(`/v2/contracts/interface/${simnet.deployer}/trust-vault`)) {
+      return Response.json(simnet.getContractsInterfaces().get(contractId));
+    }
+    if (url.endsWith("/v2/info")) {
+      return Response.json({ stacks_tip_height: 100 });
+    }
+    if (url.endsWith("/v2/fees/transaction")) {
+      return Response.json({
+        estimations: [1000, 2000, 3000].map((fee) => ({ fee, fee_rate: 1 })),
+      });
+    }
+    if (url.endsWith("/v2/transactions")) {
+      const transaction = deserializeTransaction(JSON.parse(String(init?.body)).tx);
+      broadcasts.push(transaction);
+      return new Response(JSON.stringify(transaction.txid()));
+    }
+    return new Response("not found", { status: 404 });
+  }) as typeof fetch;
+  return { fetchFn, broadcasts };
+}
+
+async function connectWallet(overrides: Partial<WalletConnectConfig> = {}) {
+  const privateKey = randomPrivateKey();
+  const { fetchFn, broadcasts } = fakeApi();
+  const relay = new LocalRelay();
+
+  const wallet = new StacksWalletConnect({
+    projectId: "local",
+    signer: new LocalKeySigner(privateKey),
+    nonceManager: new NonceManager({ apiUrl, fetch: fetchFn }),
+    apiUrl,
+    fetch: fetchFn,
+    walletKit: relay as unknown as IWalletKit,
+    logger: createConsoleLogger("silent"),
+    ...overrides,
+  });
+  await wallet.init();
+
+  const { uri, approval } = await TrustVaultRequester.connect(relay, {
+    network: "testnet",
+    contractAddress: contractId,
+    apiUrl,
+    fetch: fetchFn,
+  });
+  const requester = await approval();
+
+  const address = publicKeyToAddress(publicKeyToHex(privateKeyToPublic(privateKey)), "testnet");
+  return { wallet, relay, requester, uri, address, broadcasts };
+}
+
+describe("TrustVaultRequester", () => {
+  it("sends contract calls that the user's wallet signs and broadcasts", async () => {
+    const { wallet, requester, uri, address, broadcasts } = await connectWallet();
+    const broadcastTxids: string[] = [];
+    wallet.on("transaction_broadcast", ({ txid }) => broadcastTxids.push(txid));
+    const prompts: Record<string, string>[] = [];
+    wallet.approvals.onApprovalRequired((request) => {
+      prompts.push(request.summary.details);
+      wallet.approvals.approve(request.id);
+    });
+
+    expect(uri).toMatch(/^wc:/);
+    expect(requester.address).toBe(address);
+    expect(await requester.getAddresses()).toEqual([address]);
+
+    const identityHash = "01".repeat(32);
+    const { txid, transaction } = await requester.registerIdentity({ identityHash });
+
+    expect(broadcasts).toHaveLength(1);
+    expect(broadcasts[0].txid()).toBe(txid);
+    expect(broadcasts[0].serialize()).toBe(transaction);
+    expect(broadcastTxids).toEqual([txid]);
+
+    const payload = broadcasts[0].payload as any;
+    expect(payload.functionName.content).toBe("register-identity");
+    expect(broadcasts[0].auth.spendingCondition.nonce).toBe(5n);
+    expect(() => broadcasts[0].verifyOrigin()).not.toThrow();
+
+    // The prompt shows the fee and nonce the wallet signs with
+    expect(prompts.at(-1)).toMatchObject({ fee: "2000 uSTX", nonce: "5" });
+  });
+
+  it("surfaces wallet rejections with their WalletConnect error code", async () => {
+    const { wallet, requester, broadcasts } = await connectWallet();
+    wallet.approvals.onApprovalRequired((request) => {
+      wallet.approvals.reject(request.id, "Not now");
+    });
+
+    await expect(requester.pauseContract()).rejects.toThrow(
+      expect.objectContaining({ code: ERROR_CODES.USER_REJECTED, message: "Not now" })
+    );
+    expect(broadcasts).toHaveLength(0);
+  });
+
+  it("checks credentials before asking the wallet to sign them", async () => {
+    const { wallet, requester, address, broadcasts } = await connectWallet();
+    const prompts: string[] = [];
+    wallet.approvals.onApprovalRequired((request) => {
+      prompts.push(request.method);
+      wallet.approvals.approve(request.id);
+    });
+    const credential = { subject: address, claimHash: "02".repeat(32), metadata: "" };
+
+    await expect(
+      requester.issueCredential({ ...credential, claimHash: "00".repeat(32), expiration: 10_000 })
+    ).rejects.toThrow(expect.objectContaining({ code: 1008, errorName: "INVALID_INPUT" }));
+    await expect(requester.issueCredential({ ...credential, expiration: 101 })).rejects.toThrow(
+      expect.objectContaining({ code: 1009, errorName: "INVALID_EXPIRATION" })
+    );
+    expect(prompts).toEqual([]);
+    expect(broadcasts).toHaveLength(0);
+  });
+
+  it("answers malformed and unknown requests with JSON-RPC error codes", async () => {
+    const { wallet, relay, requester, address } = await connectWallet();
+    const prompts: string[] = [];
+    wallet.approvals.onApprovalRequired((request) => {
+      prompts.push(request.method);
+      wallet.approvals.approve(request.id);
+    });
+    const send = (method: string, params: unknown) =>
+      relay.request({
+        topic: requester.topic,
+        chainId: "stacks:testnet",
+        request: { method, params },
+      });
+
+    await expect(send("eth_sendTransaction", {})).rejects.toEqual({
+      code: ERROR_CODES.UNSUPPORTED_METHOD,
+      message: "Unsupported method: eth_sendTransaction",
+      data: JSON.stringify({ method: "eth_sendTransaction" }),
+    });
+    const transfer = { sender: address, recipient: address };
+    await expect(send("stx_transferStx", transfer)).rejects.toEqual({
+      code: ERROR_CODES.INVALID_PARAMS,
+      message: "Missing required parameter: amount",
+      data: JSON.stringify({ field: "amount", expected: "string" }),
+    });
+    expect(prompts).toEqual([]);
+
+    // Checks against the contract ABI also run before the prompt, with the same error shape
+    const call = { contract: contractId, functionName: "no-such-function", functionArgs: [] };
+    await expect(send("stx_callContract", call)).rejects.toEqual({
+      code: ERROR_CODES.INVALID_PARAMS,
+      message: "Contract trust-vault has no function no-such-function",
+      data: JSON.stringify({ field: "functionName" }),
+    });
+    expect(prompts).toEqual([]);
+  });
+
+  it("answers each request once when its history cannot be saved", async () => {
+    const sessionStore = new MemorySessionStore();
+    const { relay, requester, address } = await connectWallet({ sessionStore });
+    sessionStore.save = async () => {
+      throw new Error("disk full");
+    };
+    const responses: unknown[] = [];
+    const respond = relay.respondSessionRequest.bind(relay);
+    relay.respondSessionRequest = async (args) => {
+      responses.push(args.response);
+      await respond(args);
+    };
+
+    expect(await requester.getAddresses()).toEqual([address]);
+    expect(await requester.getAddresses()).toEqual([address]);
+    expect(responses).toHaveLength(2);
+    expect(responses.every((response: any) => response.error === undefined)).toBe(true);
+  });
+
+  it("signs with the session's own account and refuses the wallet's other accounts", async () => {
+    // Deployer from settings/Devnet.toml
+    const accounts = new MnemonicAccountProvider(
+      "twice kind fence tip hidden tilt action fragile skin nothing glory cousin green tomorrow spring wrist shed math olympic multiply hip blue scout claw",
+      { accountCount: 2 }
+    );
+    const [first, second] = await accounts.getAccounts();
+    const { wallet, relay, requester, broadcasts } = await connectWallet({
+      signer: undefined,
+      accounts,
+      selectAccounts: (_dapp, available) => available.slice(1),
+    });
+    wallet.approvals.onApprovalRequired((request) => wallet.approvals.approve(request.id));
+
+    expect(requester.address).toBe(getAccountAddress(second, "testnet"));
+    await requester.pauseContract();
+    expect(getTransactionOrigin(broadcasts[0])).toBe(requester.address);
+    expect(() => broadcasts[0].verifyOrigin()).not.toThrow();
+
+    const message = { address: getAccountAddress(first, "testnet"), message: "hello" };
+    await expect(
+      relay.request({
+        topic: requester.topic,
+        chainId: "stacks:testnet",
+        request: { method: "stx_signMessage", params: message },
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.UNAUTHORIZED });
+  });
+
+  it("rejects requests over the dApp's fee and rate limits before signing", async () => {
+    const limits = new SessionLimiter({
+      origins: {
+        [dapp.url]: { maxFee: 500, requestsPerMinute: { stx_getAddresses: 1 } },
+      },
+    });
+    const { wallet, requester, broadcasts } = await connectWallet({ limits });
+    wallet.approvals.onApprovalRequired((request) => wallet.approvals.approve(request.id));
+
+    await requester.getAddresses();
+    await expect(requester.getAddresses()).rejects.toThrow(
+      expect.objectContaining({ code: ERROR_CODES.LIMIT_EXCEEDED })
+    );
+
+    await expect(requester.registerIdentity({ identityHash: "01".repeat(32) })).rejects.toThrow(
+      expect.objectContaining({
+        code: ERROR_CODES.LIMIT_EXCEEDED,
+        message: expect.stringMatching(/^Fee of/),
+      })
+    );
+    expect(broadcasts).toHaveLength(0);
+  });
+
+  it("refuses allow-mode contract calls while the dApp has a daily STX limit", async () => {
+    const limits = new SessionLimiter({ origins: { [dapp.url]: { dailyMicroStx: 1000 } } });
+    const { wallet, relay, requester, broadcasts } = await connectWallet({ limits });
+    wallet.approvals.onApprovalRequired((request) => wallet.approvals.approve(request.id));
+
+    const call = {
+      contract: contractId,
+      functionName: "pause-contract",
+      functionArgs: [],
+      postConditionMode: "allow",
+    };
+    await expect(
+      relay.request({
+        topic: requester.topic,
+        chainId: "stacks:testnet",
+        request: { method: "stx_callContract", params: call },
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.LIMIT_EXCEEDED });
+    expect(broadcasts).toHaveLength(0);
+
+    // Deny-mode calls without STX post-conditions cannot move the sender's STX
+    await requester.pauseContract();
+    expect(broadcasts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+  isValidExpiration,
+  isValidHash,
+  isValidMetadataLength,
+  isValidProofData,
+  isValidRecoveryAddress,
+  validateIssueCredential,
+  validateRegisterIdentity,
+  validateSubmitProof,
+} from "../src/validation";
+import { TrustVaultError } from "../src/errors";
+
+const accounts = simnet.getAccounts();
+const address1 = accounts.get("wallet_1")!;
+const address2 = accounts.get("wallet_2")!;
+
+describe("validators", () => {
+  it("checks hashes for length and zero bytes", () => {
+    expect(isValidHash("01".repeat(32))).toBe(true);
+    expect(isValidHash("0x" + "ab".repeat(32))).toBe(true);
+    expect(isValidHash(new Uint8Array(32).fill(7))).toBe(true);
+    expect(isValidHash("00".repeat(32))).toBe(false);
+    expect(isValidHash(new Uint8Array(32))).toBe(false);
+    expect(isValidHash("01".repeat(31))).toBe(false);
+    expect(isValidHash("zz".repeat(32))).toBe(false);
+  });
+
+  it("checks proof data, metadata and expiration bounds", () => {
+    expect(isValidProofData("ff".repeat(64))).toBe(true);
+    expect(isValidProofData(new Uint8Array(1024))).toBe(true);
+    expect(isValidProofData("ff".repeat(63))).toBe(false);
+    expect(isValidProofData(new Uint8Array(1025))).toBe(false);
+
+    expect(isValidMetadataLength("é".repeat(256))).toBe(true);
+    expect(isValidMetadataLength("a".repeat(257))).toBe(false);
+
+    expect(isValidExpiration(12, 10)).toBe(true);
+    expect(isValidExpiration(11n, 10)).toBe(false);
+  });
+
+  it("rejects recovery addresses equal to the sender or admin", () => {
+    expect(isValidRecoveryAddress(undefined, address1)).toBe(true);
+    expect(isValidRecoveryAddress(address2, address1)).toBe(true);
+    expect(isValidRecoveryAddress(address1, address1)).toBe(false);
+    expect(isValidRecoveryAddress(address2, address1, address2)).toBe(false);
+  });
+
+  it("throws the error code the contract returns for the same input", () => {
+    const recovery = { identityHash: "01".repeat(32), recoveryAddress: address1 };
+    expect(() => validateRegisterIdentity(recovery, address1)).toThrow(TrustVaultError);
+    const { result } = simnet.callPublicFn(
+      "trust-vault",
+      "register-identity",
+      [Cl.bufferFromHex(recovery.identityHash), Cl.some(Cl.principal(address1))],
+      address1
+    );
+    expect(result).toBeErr(Cl.uint(1010));
+
+    const proof = { proofHash: "02".repeat(32), proofData: "ff".repeat(10) };
+    expect(() => validateSubmitProof(proof)).toThrow(
+      expect.objectContaining({ code: 1011, errorName: "INVALID_PROOF_DATA" })
+    );
+
+    const credential = {
+      subject: address2,
+      claimHash: "00".repeat(32),
+      expiration: simnet.blockHeight + 100,
+      metadata: "",
+    };
+    expect(() => validateIssueCredential(credential, simnet.blockHeight)).toThrow(
+      expect.objectContaining({ code: 1008, errorName: "INVALID_INPUT" })
+    );
+    expect(() =>
+      validateIssueCredential(
+        { ...credential, claimHash: "03".repeat(32), expiration: simnet.blockHeight + 1 },
+        simnet.blockHeight
+      )
+    ).toThrow(expect.objectContaining({ code: 1009 }));
+  });
+});